@@ -0,0 +1,396 @@
+#!/usr/bin/env node
+import { promises as fs } from "fs";
+import { isAbsolute, join, relative, resolve } from "path";
+import { parseArgs } from "util";
+import { isExcludedDirectory, matchesFilePatterns, modelSettingFor, parseJsonc, providerChain, resolveConfig } from "./core/config";
+import { STAGED_CHANGES, diffTargetFromRange, getGitDiff, reviewDiffFile, runCommitGate, runGit, validateRevision } from "./core/git";
+import { isCancellation, log, setHost } from "./core/host";
+import { buildExplainPrompt } from "./core/prompts";
+import { AnthropicProvider, FlowiseProvider, OllamaProvider, OpenAIProvider, ProviderChain, createOpenAICompatibleProvider, getLLMResponse } from "./core/providers";
+import { meetsSeverity, normalizeSeverity, reviewContent } from "./core/review";
+import { SarifFileResult, toSarif } from "./core/sarif";
+import { CommandRoute, Config, DiffTarget, LLMProvider, Severity } from "./core/types";
+
+// Headless entry point for scripts and git hooks. Reviews run through the same core as the
+// extension; settings come from .vscode/settings.json, an optional --config file and flags.
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_FINDINGS = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: llmcoderagent <command> [options]
+
+Commands:
+  review <paths...>        Review files; directories are searched with the include/exclude patterns
+  review-diff [range]      Review changes: the working tree against HEAD, --staged, or a commit range
+  gate                     Review the staged changes and fail on blocking issues (for pre-commit hooks)
+  explain <file>           Explain a file, or --lines a-b of it
+  ask [question...]        Ask a question; reads it from stdin when none is given
+
+Options:
+  --format <format>        Output format: markdown, json, or sarif for review commands (default: markdown)
+  --fail-on <severity>     Lowest severity that fails review commands: High, Medium, Low or none
+                           (default: the commitGateSeverity setting)
+  --staged                 review-diff: review the staged changes
+  --lines <a-b>            explain: only explain these lines
+  --provider <name>        flowise, openai, openai-compatible, anthropic or ollama (default: the llmProvider setting)
+  --model <name>           Model to use; the chatflow ID for Flowise
+  --config <file>          JSON settings file, keys with or without the "llmcoderagent." prefix
+  --verbose                Log requests to stderr
+  --help                   Show this help
+
+Credentials are read from OPENAI_API_KEY, OPENAI_COMPATIBLE_API_KEY, ANTHROPIC_API_KEY and FLOWISE_API_KEY.`;
+
+const OPTIONS = {
+    format: { type: "string", default: "markdown" },
+    "fail-on": { type: "string" },
+    staged: { type: "boolean", default: false },
+    lines: { type: "string" },
+    provider: { type: "string" },
+    model: { type: "string" },
+    config: { type: "string" },
+    verbose: { type: "boolean", default: false },
+    help: { type: "boolean", default: false },
+} as const;
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>["values"];
+
+// content and hunks only feed the SARIF fixes.
+interface FileResult extends SarifFileResult {
+    review: string;
+}
+
+class UsageError extends Error { }
+
+const SETTINGS_PREFIX = "llmcoderagent.";
+
+const readSettingsFile = async (path: string): Promise<Record<string, unknown>> => {
+    const settings = parseJsonc(await fs.readFile(path, "utf8"));
+    if (!settings || typeof settings !== "object" || Array.isArray(settings)) {
+        throw new UsageError(`${path} must contain a JSON object of settings`);
+    }
+    return Object.fromEntries(Object.entries(settings)
+        .filter(([key]) => key.startsWith(SETTINGS_PREFIX) || !key.includes("."))
+        .map(([key, value]) => [key.replace(SETTINGS_PREFIX, ""), value]));
+};
+
+// Workspace settings first, then the --config file, then flags, so the CLI reviews a project the
+// same way the extension does unless told otherwise.
+const loadConfig = async (cwd: string, options: CliOptions): Promise<Config> => {
+    const settings: Record<string, unknown> = {};
+    try {
+        Object.assign(settings, await readSettingsFile(join(cwd, ".vscode", "settings.json")));
+    } catch {
+        // No workspace settings.
+    }
+    if (options.config) {
+        Object.assign(settings, await readSettingsFile(resolve(cwd, options.config)));
+    }
+    if (options.provider) {
+        settings.llmProvider = options.provider;
+    }
+    if (options.model) {
+        settings[modelSettingFor(String(settings.llmProvider ?? "ollama"))] = options.model;
+    }
+    // An explicit provider or model applies to every command.
+    if (options.provider || options.model) {
+        settings.commandProviders = {};
+    }
+    return resolveConfig(<T>(key: string) => settings[key] as T | undefined);
+};
+
+const buildProvider = (config: Config): LLMProvider => {
+    if (config.llmProvider === "openai") {
+        return new OpenAIProvider(process.env.OPENAI_API_KEY ?? "", config.openaiModel, config);
+    }
+    if (config.llmProvider === "openai-compatible") {
+        return createOpenAICompatibleProvider(process.env.OPENAI_COMPATIBLE_API_KEY, config);
+    }
+    if (config.llmProvider === "anthropic") {
+        return new AnthropicProvider(process.env.ANTHROPIC_API_KEY ?? "", config);
+    }
+    if (config.llmProvider === "ollama") {
+        return new OllamaProvider(config);
+    }
+    return new FlowiseProvider(process.env.FLOWISE_API_KEY, config);
+};
+
+// The provider for a command. With fallback profiles configured, the first entry of the chain
+// that passes its connection test is used and the rest are kept as fallbacks.
+const createProvider = async (config: Config, route: CommandRoute): Promise<LLMProvider> => {
+    const chain = providerChain(config, route);
+    if (chain.length === 1) {
+        return buildProvider(chain[0].config);
+    }
+    const connect = async ({ label, config }: { label: string; config: Config }): Promise<LLMProvider | undefined> => {
+        try {
+            const provider = buildProvider(config);
+            if (await provider.testConnection()) {
+                return provider;
+            }
+            log(`Provider ${label} failed its connection test`, "ERROR");
+        } catch (error) {
+            log(`Provider ${label} unavailable: ${error instanceof Error ? error.message : "Unknown error"}`, "ERROR");
+        }
+        return undefined;
+    };
+    for (const [index, entry] of chain.entries()) {
+        const provider = await connect(entry);
+        if (provider) {
+            return new ProviderChain(provider, chain.slice(index + 1).map((fallback) => () => connect(fallback)));
+        }
+    }
+    throw new Error(`No provider available; tried ${chain.map((entry) => entry.label).join(", ")}.`);
+};
+
+const toPosix = (path: string): string => path.split("\\").join("/");
+
+// Expands directories into the files the include and exclude patterns select, up to maxFiles.
+// Explicitly named files are always reviewed.
+const collectFiles = async (cwd: string, paths: string[], config: Config): Promise<string[]> => {
+    const files: string[] = [];
+    const visit = async (absolute: string, explicit: boolean): Promise<void> => {
+        if (files.length >= config.maxFiles) {
+            return;
+        }
+        const path = toPosix(relative(cwd, absolute)) || ".";
+        const stat = await fs.stat(absolute);
+        if (stat.isFile()) {
+            if (explicit || matchesFilePatterns(path, config)) {
+                files.push(path);
+            }
+        } else if (stat.isDirectory() && (explicit || !isExcludedDirectory(path, config))) {
+            for (const entry of (await fs.readdir(absolute)).sort()) {
+                await visit(join(absolute, entry), false);
+            }
+        }
+    };
+    for (const path of paths) {
+        await visit(resolve(cwd, path), true);
+    }
+    return files;
+};
+
+const parseFailOn = (value: string | undefined, config: Config): Severity | undefined => {
+    if (value === undefined) {
+        return config.commitGateSeverity;
+    }
+    if (value.toLowerCase() === "none") {
+        return undefined;
+    }
+    const severity = normalizeSeverity(value);
+    if (!severity) {
+        throw new UsageError(`Unknown severity "${value}"; use High, Medium, Low or none.`);
+    }
+    return severity;
+};
+
+const countBlocking = (results: FileResult[], failOn?: Severity): number =>
+    failOn ? results.reduce((total, result) => total + result.issues.filter((issue) => meetsSeverity(issue.severity, failOn)).length, 0) : 0;
+
+const readToolVersion = async (): Promise<string | undefined> => {
+    try {
+        return JSON.parse(await fs.readFile(join(__dirname, "..", "package.json"), "utf8")).version;
+    } catch {
+        return undefined;
+    }
+};
+
+const printSarif = async (results: SarifFileResult[], root: string): Promise<void> => {
+    console.log(JSON.stringify(toSarif(results, { root, toolVersion: await readToolVersion() }), null, 2));
+};
+
+// Paths in results are relative to root.
+const printResults = async (results: FileResult[], root: string, options: CliOptions, failOn?: Severity): Promise<number> => {
+    const blocking = countBlocking(results, failOn);
+    const issues = results.reduce((total, result) => total + result.issues.length, 0);
+    if (options.format === "sarif") {
+        await printSarif(results, root);
+    } else if (options.format === "json") {
+        const files = results.map(({ path, review, issues }) => ({ path, review, issues }));
+        console.log(JSON.stringify({ files, summary: { files: results.length, issues, blocking, failOn: failOn ?? null } }, null, 2));
+    } else {
+        for (const result of results) {
+            console.log(`## ${result.path}\n\n${result.review}\n`);
+        }
+        console.log(`Reviewed ${results.length} file(s): ${issues} issue(s)${failOn ? `, ${blocking} at ${failOn} severity or above` : ""}.`);
+    }
+    return blocking ? EXIT_FINDINGS : EXIT_OK;
+};
+
+const gitRoot = async (cwd: string): Promise<string> => (await runGit(["rev-parse", "--show-toplevel"], cwd)).trim();
+
+const review = async (cwd: string, paths: string[], config: Config, options: CliOptions): Promise<number> => {
+    if (!paths.length) {
+        throw new UsageError("review needs at least one file or directory.");
+    }
+    const failOn = parseFailOn(options["fail-on"], config);
+    const provider = await createProvider(config, "reviewProject");
+    const results: FileResult[] = [];
+    for (const path of await collectFiles(cwd, paths, config)) {
+        const absolute = resolve(cwd, path);
+        const { size } = await fs.stat(absolute);
+        if (size > config.maxFileSize) {
+            console.error(`Skipping ${path}: ${size} bytes exceeds the limit of ${config.maxFileSize}`);
+            continue;
+        }
+        const content = await fs.readFile(absolute, "utf8");
+        const { review, issues, hunks } = await reviewContent(path, content, config, provider);
+        results.push({ path, review, issues, content, hunks });
+    }
+    return printResults(results, cwd, options, failOn);
+};
+
+const reviewDiff = async (cwd: string, range: string | undefined, config: Config, options: CliOptions): Promise<number> => {
+    const failOn = parseFailOn(options["fail-on"], config);
+    let target: DiffTarget;
+    if (options.staged) {
+        target = STAGED_CHANGES;
+    } else if (range) {
+        const invalid = validateRevision(range);
+        if (invalid) {
+            throw new UsageError(invalid);
+        }
+        target = diffTargetFromRange(range);
+    } else {
+        target = { label: "working tree changes", args: ["HEAD"], newSide: "worktree", includeUntracked: true };
+    }
+    const root = await gitRoot(cwd);
+    const provider = await createProvider(config, "gitDiff");
+    const files = (await getGitDiff(root, target)).filter((file) =>
+        !file.binary && file.status !== "deleted" && file.hunks.length && matchesFilePatterns(file.path, config));
+    const results: FileResult[] = [];
+    for (const file of files) {
+        const { review, issues } = await reviewDiffFile(file, config, provider);
+        results.push({ path: file.path, review, issues });
+    }
+    return printResults(results, root, options, failOn);
+};
+
+// Meant for .git/hooks/pre-commit; `git commit --no-verify` is the override.
+const gate = async (cwd: string, config: Config, options: CliOptions): Promise<number> => {
+    const failOn = parseFailOn(options["fail-on"], config);
+    if (!failOn) {
+        return EXIT_OK;
+    }
+    const root = await gitRoot(cwd);
+    const result = await runCommitGate(root, { ...config, commitGateSeverity: failOn }, await createProvider(config, "gitDiff"));
+    // Unverified reviews fail the gate too, so output that cannot be read never lets a commit through.
+    const blocked = result.blocking.length > 0 || result.unverified.length > 0;
+    const reportUnverified = () => result.unverified.forEach((path) =>
+        console.error(`${path}: the review did not return valid JSON, so its findings are unknown`));
+    if (options.format === "sarif") {
+        await printSarif(result.blocking, root);
+        reportUnverified();
+    } else if (options.format === "json") {
+        console.log(JSON.stringify({ reviewed: result.reviewed, failOn, blocking: result.blocking, unverified: result.unverified }, null, 2));
+    } else if (blocked) {
+        for (const { path, issues } of result.blocking) {
+            for (const issue of issues) {
+                console.error(`${path}:${issue.line}: [${issue.severity}] ${issue.message}`);
+            }
+        }
+        reportUnverified();
+        console.error(`Commit blocked: issues at ${failOn} severity or above, or reviews that could not be verified. Use "git commit --no-verify" to commit anyway.`);
+    } else {
+        console.error(`No blocking issues in ${result.reviewed} staged file(s).`);
+    }
+    return blocked ? EXIT_FINDINGS : EXIT_OK;
+};
+
+const explain = async (cwd: string, path: string | undefined, config: Config, options: CliOptions): Promise<number> => {
+    if (!path) {
+        throw new UsageError("explain needs a file.");
+    }
+    let code = await fs.readFile(resolve(cwd, path), "utf8");
+    if (options.lines) {
+        const match = options.lines.match(/^(\d+)(?:-(\d+))?$/);
+        if (!match) {
+            throw new UsageError(`Invalid line range "${options.lines}"; use a-b.`);
+        }
+        code = code.split("\n").slice(parseInt(match[1]) - 1, parseInt(match[2] ?? match[1])).join("\n");
+    }
+    const filename = toPosix(isAbsolute(path) ? relative(cwd, path) : path);
+    const explanation = await getLLMResponse(buildExplainPrompt(config, filename, code), config, [], await createProvider(config, "explain"), { sanitize: false });
+    console.log(options.format === "json" ? JSON.stringify({ path: filename, explanation }, null, 2) : explanation);
+    return EXIT_OK;
+};
+
+const readStdin = async (): Promise<string> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString("utf8");
+};
+
+const ask = async (words: string[], config: Config, options: CliOptions): Promise<number> => {
+    const question = (words.length ? words.join(" ") : await readStdin()).trim();
+    if (!question) {
+        throw new UsageError("ask needs a question.");
+    }
+    const answer = await getLLMResponse(question, config, [], await createProvider(config, "chat"), { sanitize: false });
+    console.log(options.format === "json" ? JSON.stringify({ question, answer }, null, 2) : answer);
+    return EXIT_OK;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+    const { values: options, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    const [command, ...args] = positionals;
+    if (options.help || !command) {
+        console.log(USAGE);
+        return options.help ? EXIT_OK : EXIT_ERROR;
+    }
+    if (options.format !== "markdown" && options.format !== "json" && options.format !== "sarif") {
+        throw new UsageError(`Unknown format "${options.format}"; use markdown, json or sarif.`);
+    }
+    if (options.format === "sarif" && (command === "explain" || command === "ask")) {
+        throw new UsageError("--format sarif only applies to review, review-diff and gate.");
+    }
+    setHost({
+        log: (message, level) => {
+            if (options.verbose || level === "ERROR") {
+                console.error(`[${level}] ${message}`);
+            }
+        },
+        notifyError: () => undefined,
+        reconfigure: async () => undefined,
+        recordUsage: (record) => {
+            if (options.verbose) {
+                console.error(`[USAGE] ${record.provider} (${record.model}): ${record.inputTokens} in, ${record.outputTokens} out${record.estimated ? " (estimated)" : ""}`);
+            }
+        },
+    });
+
+    const cwd = process.cwd();
+    const config = await loadConfig(cwd, options);
+    switch (command) {
+        case "review":
+            return review(cwd, args, config, options);
+        case "review-diff":
+            return reviewDiff(cwd, args[0], config, options);
+        case "gate":
+            return gate(cwd, config, options);
+        case "explain":
+            return explain(cwd, args[0], config, options);
+        case "ask":
+            return ask(args, config, options);
+        default:
+            throw new UsageError(`Unknown command "${command}".`);
+    }
+};
+
+main(process.argv.slice(2)).then(
+    (code) => {
+        process.exitCode = code;
+    },
+    (error) => {
+        if (error instanceof UsageError) {
+            console.error(`${error.message}\nRun "llmcoderagent --help" for usage.`);
+        } else if (!isCancellation(error)) {
+            console.error(error instanceof Error ? error.message : String(error));
+        }
+        process.exitCode = EXIT_ERROR;
+    }
+);
@@ -0,0 +1,147 @@
+import { minimatch } from "minimatch";
+import { DEFAULT_PR_DESCRIPTION_TEMPLATE, DEFAULT_STRUCTURED_REVIEW_PROMPT, DEFAULT_SYSTEM_PROMPT, defaultReviewPrompt } from "./prompts";
+import { normalizeSeverity } from "./review";
+import { log } from "./host";
+import { CommandRoute, Config, ProviderProfile, Severity } from "./types";
+
+const defaultConfig = (llmProvider: string): Config => ({
+    llmProvider,
+    flowiseUrl: "https://your-flowise-server.com/api/v1/prediction",
+    flowiseChatflowId: "",
+    flowiseTemperature: undefined,
+    flowiseSystemMessage: "",
+    flowiseOverrideConfig: {},
+    openaiModel: "gpt-3.5-turbo",
+    openaiCompatibleBaseUrl: "http://localhost:1234/v1",
+    openaiCompatibleModel: "",
+    openaiCompatibleAuthHeader: "Authorization",
+    openaiCompatibleHeaders: {},
+    anthropicModel: "claude-sonnet-4-5",
+    anthropicBaseUrl: "https://api.anthropic.com",
+    anthropicMaxTokens: 4096,
+    anthropicSystemPrompt: DEFAULT_SYSTEM_PROMPT,
+    ollamaModel: "deepseek-coder:6.7b-base",
+    ollamaHost: "http://localhost:11434",
+    ollamaSystemPrompt: DEFAULT_SYSTEM_PROMPT,
+    providerProfiles: {},
+    providerFallbacks: [],
+    commandProviders: {},
+    maxConcurrentRequests: 4,
+    requestsPerMinute: 0,
+    tokensPerMinute: 0,
+    providerRateLimits: {},
+    tokenPrices: {},
+    dailyTokenBudget: 0,
+    dailyCostBudget: 0,
+    apiTimeout: 60000, // Increased to 60 seconds
+    apiMaxRetries: 5, // Increased to 5 retries
+    apiRetryDelay: 2000, // Increased to 2 seconds
+    maxFiles: 1000,
+    reviewBatchSize: 5,
+    maxFileSize: 100000,
+    autoApplyChanges: false,
+    statusBarTimeout: 2000,
+    includePatterns: ["**/*.{ts,js,py,md}"],
+    excludePatterns: [
+        "**/node_modules/**",
+        "**/.git/**",
+        "**/dist/**",
+        "**/build/**",
+        "**/*.log",
+        "**/*.lock",
+        "**/*.bak.*",
+    ],
+    reviewPrompt: defaultReviewPrompt(llmProvider),
+    explainPrompt: "",
+    generatePrompt: "",
+    webviewTitle: "LLMCoder Chat",
+    inputPlaceholder: "Ask the LLM something, type 'review project', 'review file', or 'help'...",
+    autoScroll: true,
+    useVsCodeTheme: true,
+    messageHistoryLimit: 100,
+    realTimeDiagnostics: false,
+    realTimeDebounceMs: 500,
+    streamResponses: true,
+    reviewOutputFormat: "auto",
+    structuredReviewPrompt: DEFAULT_STRUCTURED_REVIEW_PROMPT,
+    incrementalProjectReview: true,
+    reportFolder: ".llmcoderagent/reports",
+    commitMessageConvention: "conventional",
+    commitMessageTemplate: "<subject>\n\n<body explaining what changed and why>",
+    commitMessageSubjectLength: 72,
+    prDescriptionTemplate: DEFAULT_PR_DESCRIPTION_TEMPLATE,
+    commitGateSeverity: Severity.High,
+    contextWindow: 0,
+    relatedFilesTokenLimit: 4000,
+    embeddingModel: "nomic-embed-text",
+    retrievalTopK: 5,
+});
+
+// Builds the configuration from any settings source: the VS Code configuration in the extension,
+// settings files and flags in the CLI. Keys are the setting names without the "llmcoderagent." prefix.
+export const resolveConfig = (get: <T>(key: string) => T | undefined): Config => {
+    const defaults = defaultConfig(get<string>("llmProvider") ?? "ollama");
+    const config = Object.fromEntries(Object.entries(defaults).map(([key, value]) => [key, get(key) ?? value])) as unknown as Config;
+    return {
+        ...config,
+        // package.json declares these with an empty default, which means "use the built-in one".
+        reviewPrompt: get<string>("reviewPrompt") || defaults.reviewPrompt,
+        structuredReviewPrompt: get<string>("structuredReviewPrompt") || defaults.structuredReviewPrompt,
+        prDescriptionTemplate: get<string>("prDescriptionTemplate") || defaults.prDescriptionTemplate,
+        commitGateSeverity: normalizeSeverity(get("commitGateSeverity")) ?? defaults.commitGateSeverity,
+    };
+};
+
+const MODEL_SETTINGS: Record<string, keyof Config> = {
+    openai: "openaiModel",
+    "openai-compatible": "openaiCompatibleModel",
+    anthropic: "anthropicModel",
+    ollama: "ollamaModel",
+    flowise: "flowiseChatflowId",
+};
+
+// The setting that holds a provider's model; for Flowise, the chatflow stands in for the model.
+export const modelSettingFor = (provider: string): keyof Config => MODEL_SETTINGS[provider] ?? "flowiseChatflowId";
+
+// The configuration with a profile's provider, model and settings applied over it.
+export const profileConfig = (config: Config, profile: ProviderProfile): Config => ({
+    ...config,
+    ...(profile.settings ?? {}),
+    llmProvider: profile.provider,
+    ...(profile.model ? { [modelSettingFor(profile.provider)]: profile.model } : {}),
+});
+
+// The configurations to try for a command, in order: its routed profile, or the default provider
+// when it has none, followed by the fallback profiles. Unknown profile names are skipped.
+export const providerChain = (config: Config, route?: CommandRoute): Array<{ label: string; config: Config }> => {
+    const resolve = (name: string) => {
+        const profile = config.providerProfiles[name];
+        if (!profile?.provider) {
+            log(`Unknown provider profile "${name}" ignored`, "ERROR");
+            return [];
+        }
+        return [{ label: name, config: profileConfig(config, profile) }];
+    };
+    const routed = route ? config.commandProviders[route] : undefined;
+    const primary = routed ? resolve(routed) : [];
+    return [
+        ...(primary.length ? primary : [{ label: config.llmProvider, config }]),
+        ...config.providerFallbacks.filter((name) => name !== routed).flatMap(resolve),
+    ];
+};
+
+// Paths are matched relative to the workspace folder or repository root.
+export const matchesFilePatterns = (relativePath: string, config: Config): boolean =>
+    config.includePatterns.some((pattern) => minimatch(relativePath, pattern)) &&
+    !config.excludePatterns.some((pattern) => minimatch(relativePath, pattern));
+
+// Whether the exclude patterns rule out everything below a directory, such as node_modules for
+// "**/node_modules/**", so walkers can skip it without listing it.
+export const isExcludedDirectory = (relativePath: string, config: Config): boolean =>
+    config.excludePatterns.some((pattern) => minimatch(`${relativePath}/`, pattern));
+
+// tsconfig.json, jsconfig.json and VS Code settings allow comments and trailing commas.
+export const parseJsonc = (text: string): unknown =>
+    JSON.parse(text
+        .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_, string?: string) => string ?? "")
+        .replace(/,(\s*[}\]])/g, "$1"));
@@ -0,0 +1,95 @@
+import { log } from "./host";
+import { splitLines } from "./patch";
+import { ChatMessage, Config, ContextPart, FittedContext, LLMProvider } from "./types";
+
+// Retrieved workspace chunks are the most speculative context, so they go before anything else.
+const CONTEXT_TRIM_ORDER = ["retrieved", "history", "file", "selection", "related"] as const;
+const MAX_RESPONSE_RESERVE = 4096;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+export const MIN_TRUNCATED_TOKENS = 64;
+
+// A character-ratio estimate: no tokenizer ships with the extension, and the ratios err towards
+// overcounting because code tokenizes more densely than prose.
+export const estimateTokenCount = (text: string, charsPerToken: number): number => Math.ceil(text.length / charsPerToken);
+
+export const resolveContextWindow = (config: Config, detected: number): number =>
+    config.contextWindow > 0 ? config.contextWindow : detected;
+
+const estimateHistoryTokens = (provider: LLMProvider, history: ChatMessage[]): number =>
+    history.reduce((total, message) => total + provider.estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+
+// Keeps whole leading lines, so line numbers cited against the kept part stay valid.
+export const truncateToTokens = (provider: LLMProvider, content: string, maxTokens: number): { content: string; keptLines: number; totalLines: number } => {
+    const lines = splitLines(content);
+    let used = 0;
+    let kept = 0;
+    while (kept < lines.length) {
+        const cost = provider.estimateTokens(`${lines[kept]}\n`);
+        if (used + cost > maxTokens) {
+            break;
+        }
+        used += cost;
+        kept++;
+    }
+    return { content: lines.slice(0, kept).join("\n"), keptLines: kept, totalLines: lines.length };
+};
+
+// Trims history and context parts until the prompt, plus a reserve for the response, fits the
+// provider's context window. Trimming follows CONTEXT_TRIM_ORDER, oldest messages and later parts
+// of a kind first; parts are truncated while a useful amount remains and omitted otherwise.
+export const fitContextBudget = (provider: LLMProvider, prompt: string, parts: ContextPart[], history: ChatMessage[] = []): FittedContext => {
+    const window = provider.getContextWindow();
+    const budget = window - Math.min(MAX_RESPONSE_RESERVE, Math.floor(window / 4)) - provider.estimateTokens(prompt);
+    const keptHistory = [...history];
+    const keptParts = [...parts];
+    const dropped: string[] = [];
+    let overflow = estimateHistoryTokens(provider, keptHistory)
+        + keptParts.reduce((total, part) => total + provider.estimateTokens(part.content), 0)
+        - budget;
+
+    for (const kind of CONTEXT_TRIM_ORDER) {
+        if (overflow <= 0) {
+            break;
+        }
+        if (kind === "history") {
+            let removed = 0;
+            while (keptHistory.length && overflow > 0) {
+                overflow -= estimateHistoryTokens(provider, keptHistory.splice(0, 1));
+                removed++;
+            }
+            if (removed) {
+                dropped.push(`${removed} earlier message${removed === 1 ? "" : "s"}`);
+            }
+            continue;
+        }
+        for (let i = keptParts.length - 1; i >= 0 && overflow > 0; i--) {
+            const part = keptParts[i];
+            if (part.kind !== kind) {
+                continue;
+            }
+            const tokens = provider.estimateTokens(part.content);
+            const marker = "\n... [truncated]";
+            const allowed = tokens - overflow - provider.estimateTokens(marker);
+            if (allowed < MIN_TRUNCATED_TOKENS) {
+                keptParts.splice(i, 1);
+                overflow -= tokens;
+                dropped.push(`${part.label} (omitted)`);
+            } else {
+                const truncated = truncateToTokens(provider, part.content, allowed);
+                keptParts[i] = { ...part, content: `${truncated.content}${marker}` };
+                overflow -= tokens - provider.estimateTokens(keptParts[i].content);
+                dropped.push(`${part.label} (kept ${truncated.keptLines} of ${truncated.totalLines} lines)`);
+            }
+        }
+    }
+    if (dropped.length) {
+        log(`Context trimmed to fit ${provider.getName()} window of ${window} tokens: ${dropped.join("; ")}`, "INFO");
+    }
+    return { history: keptHistory, parts: keptParts, dropped, window };
+};
+
+export const describeTrimmedContext = (fitted: FittedContext): string =>
+    `Context trimmed to fit the model's ${fitted.window.toLocaleString()}-token window: ${fitted.dropped.join("; ")}.`;
+
+export const renderContextParts = (parts: ContextPart[]): string =>
+    parts.map((part) => `Context (${part.label}):\n\`\`\`\n${part.content}\n\`\`\``).join("\n\n");
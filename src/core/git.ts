@@ -0,0 +1,328 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { matchesFilePatterns } from "./config";
+import { describeTrimmedContext, fitContextBudget, renderContextParts } from "./context";
+import { CancellationError, log } from "./host";
+import { splitLines } from "./patch";
+import { getLLMResponse } from "./providers";
+import { REVIEW_JSON_INSTRUCTIONS, formatStructuredReview, isStructuredReview, meetsSeverity, parseMarkdownIssues, requestStructuredReview } from "./review";
+import { Config, ContextPart, DiffFile, DiffHunk, DiffTarget, Issue, LLMProvider } from "./types";
+
+const execFileAsync = promisify(execFile);
+const MAX_GIT_OUTPUT = 64 * 1024 * 1024;
+const DIFF_ARGS = ["-c", "core.quotePath=false", "diff", "--no-color", "--no-ext-diff", "--find-renames", "--unified=3"];
+
+export const runGit = async (args: string[], cwd: string, { signal, allowExitCodes = [] }: { signal?: AbortSignal; allowExitCodes?: number[] } = {}): Promise<string> => {
+    try {
+        const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: MAX_GIT_OUTPUT, signal });
+        return stdout;
+    } catch (error) {
+        if (signal?.aborted) {
+            throw new CancellationError();
+        }
+        // execFile rejects with an Error that also carries the exit code and the captured output.
+        const failure = error instanceof Error ? error : new Error(String(error));
+        if ("code" in failure && typeof failure.code === "number" && allowExitCodes.includes(failure.code)) {
+            return "stdout" in failure && typeof failure.stdout === "string" ? failure.stdout : "";
+        }
+        const stderr = "stderr" in failure && typeof failure.stderr === "string" ? failure.stderr.trim() : "";
+        throw new Error(`git ${args.join(" ")} failed: ${stderr || failure.message.trim() || "unknown error"}`);
+    }
+};
+
+const gitSucceeds = async (args: string[], cwd: string): Promise<boolean> => {
+    try {
+        await runGit(args, cwd);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const stripDiffPrefix = (path: string): string | undefined => {
+    const cleaned = path.replace(/\t.*$/, "").replace(/^"(.*)"$/, "$1");
+    return cleaned === "/dev/null" ? undefined : cleaned.replace(/^[ab]\//, "");
+};
+
+// Parses `git diff` output into files and hunks. Hunk bodies are consumed by their line counts,
+// so removed lines that look like headers ("--- x") are not mistaken for the next file.
+export const parseUnifiedDiff = (text: string): DiffFile[] => {
+    const files: DiffFile[] = [];
+    let file: DiffFile | undefined;
+    let hunk: DiffHunk | undefined;
+    let oldRemaining = 0;
+    let newRemaining = 0;
+    for (const line of splitLines(text)) {
+        if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+            hunk.lines.push(line);
+            if (line.startsWith("-")) {
+                oldRemaining--;
+            } else if (line.startsWith("+")) {
+                newRemaining--;
+            } else if (!line.startsWith("\\")) {
+                oldRemaining--;
+                newRemaining--;
+            }
+            continue;
+        }
+        if (line.startsWith("\\")) {
+            hunk?.lines.push(line);
+            continue;
+        }
+        hunk = undefined;
+        if (line.startsWith("diff --git ")) {
+            const match = line.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/);
+            file = { path: match?.[2] ?? "", oldPath: match?.[1], status: "modified", binary: false, hunks: [] };
+            files.push(file);
+            continue;
+        }
+        if (!file) {
+            continue;
+        }
+        const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+        if (header) {
+            hunk = {
+                oldStart: parseInt(header[1]),
+                oldLines: header[2] === undefined ? 1 : parseInt(header[2]),
+                newStart: parseInt(header[3]),
+                newLines: header[4] === undefined ? 1 : parseInt(header[4]),
+                lines: [],
+            };
+            oldRemaining = hunk.oldLines;
+            newRemaining = hunk.newLines;
+            file.hunks.push(hunk);
+        } else if (line.startsWith("new file mode")) {
+            file.status = "added";
+        } else if (line.startsWith("deleted file mode")) {
+            file.status = "deleted";
+        } else if (line.startsWith("rename from ")) {
+            file.status = "renamed";
+            file.oldPath = line.slice("rename from ".length);
+        } else if (line.startsWith("rename to ")) {
+            file.path = line.slice("rename to ".length);
+        } else if (line.startsWith("Binary files ")) {
+            file.binary = true;
+        } else if (line.startsWith("--- ")) {
+            file.oldPath = stripDiffPrefix(line.slice(4)) ?? file.oldPath;
+        } else if (line.startsWith("+++ ")) {
+            file.path = stripDiffPrefix(line.slice(4)) ?? file.path;
+        }
+    }
+    return files;
+};
+
+// Prefixes each line with its line number in the new file so reviews cite lines that exist after
+// the change. Removed lines get a blank number column.
+export const formatDiffForReview = (file: DiffFile): string => {
+    const width = String(Math.max(1, ...file.hunks.map((hunk) => hunk.newStart + hunk.newLines))).length;
+    return file.hunks.map((hunk) => {
+        let lineNumber = hunk.newStart;
+        const body = hunk.lines
+            .filter((line) => !line.startsWith("\\"))
+            .map((line) => line.startsWith("-")
+                ? `${" ".repeat(width)} ${line}`
+                : `${String(lineNumber++).padStart(width)} ${line}`);
+        return [`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`, ...body].join("\n");
+    }).join("\n");
+};
+
+export const isInChangedHunk = (file: DiffFile, line: number): boolean =>
+    file.hunks.some((hunk) => line >= hunk.newStart && line < hunk.newStart + Math.max(hunk.newLines, 1));
+
+export const getGitDiff = async (root: string, target: DiffTarget, signal?: AbortSignal): Promise<DiffFile[]> => {
+    const files = parseUnifiedDiff(await runGit([...DIFF_ARGS, ...target.args], root, { signal }));
+    if (target.includeUntracked) {
+        const untracked = (await runGit(["ls-files", "--others", "--exclude-standard", "-z"], root, { signal })).split("\0").filter(Boolean);
+        for (const path of untracked) {
+            // --no-index exits with 1 whenever the files differ, which they always do here.
+            const diff = await runGit([...DIFF_ARGS, "--no-index", "--", "/dev/null", path], root, { signal, allowExitCodes: [1] });
+            files.push(...parseUnifiedDiff(diff).map((file) => ({ ...file, path, status: "added" as const })));
+        }
+    }
+    return files;
+};
+
+// Diagnostics go on the open file, so they are only published when the diff's new side matches
+// the working tree copy of the file.
+export const matchesWorkingTree = async (root: string, target: DiffTarget, path: string): Promise<boolean> => {
+    if (target.newSide === "worktree") {
+        return true;
+    }
+    if (target.newSide === "index") {
+        return gitSucceeds(["diff", "--quiet", "--", path], root);
+    }
+    const [revision, head] = await Promise.all([
+        runGit(["rev-parse", "--verify", `${target.newSide}^{commit}`], root).catch(() => ""),
+        runGit(["rev-parse", "--verify", "HEAD"], root).catch(() => ""),
+    ]);
+    return !!revision.trim() && revision.trim() === head.trim() && gitSucceeds(["diff", "--quiet", "HEAD", "--", path], root);
+};
+
+export const validateRevision = (value: string): string | undefined =>
+    !value.trim() ? "Enter a revision" : value.trim().startsWith("-") || /\s/.test(value.trim()) ? "Revisions cannot start with '-' or contain spaces" : undefined;
+
+// A range compares its two ends. A single revision is what "git diff <rev>" compares it with: the
+// working tree, untracked files included.
+export const diffTargetFromRange = (range: string): DiffTarget => {
+    const trimmed = range.trim();
+    if (!trimmed.includes("..")) {
+        return { label: `changes since ${trimmed}`, args: [trimmed], newSide: "worktree", includeUntracked: true };
+    }
+    return { label: `commits ${trimmed}`, args: [trimmed], newSide: trimmed.split(/\.{2,3}/)[1] || "HEAD" };
+};
+
+// Reviews one file's diff and keeps only the issues that fall inside its changed hunks. A
+// structured review that never validates is returned unverified, with whatever issues the
+// markdown parser finds in it.
+export const reviewDiffFile = async (
+    file: DiffFile,
+    config: Config,
+    provider: LLMProvider,
+    signal?: AbortSignal,
+    structured = isStructuredReview(config, provider)
+): Promise<{ review: string; issues: Issue[]; verified: boolean }> => {
+    const intro = `Review the following changes to ${file.path}${file.status === "renamed" ? ` (renamed from ${file.oldPath})` : ""}. Each line is prefixed with its line number in the changed file; removed lines have no number. Only review the added and changed lines, and cite the numbered lines.`;
+    const instructions = structured
+        ? REVIEW_JSON_INSTRUCTIONS
+        : "Provide a concise review in markdown format, highlighting potential issues and suggestions for improvement. List each issue as a bullet with its line number and severity (High/Medium/Low).";
+    const fitted = fitContextBudget(provider, `${intro}\n\n${instructions}`, [{ kind: "file", label: `diff: ${file.path}`, content: formatDiffForReview(file) }]);
+    const prompt = `${intro}\n\`\`\`diff\n${fitted.parts[0]?.content ?? ""}\n\`\`\`\n${instructions}`;
+    let review: string;
+    let issues: Issue[];
+    let verified = true;
+    if (structured) {
+        const result = await requestStructuredReview(prompt, config, provider, { signal, command: "gitDiff", file: file.path });
+        review = result.review ? formatStructuredReview(result.review) : result.raw;
+        issues = result.review?.issues ?? parseMarkdownIssues(result.raw);
+        verified = result.review !== undefined;
+    } else {
+        review = await getLLMResponse(prompt, config, [], provider, { signal, command: "gitDiff", file: file.path });
+        issues = parseMarkdownIssues(review);
+    }
+    if (fitted.dropped.length) {
+        review = `> ${describeTrimmedContext(fitted)}\n\n${review}`;
+    }
+    return { review, issues: issues.filter((issue) => isInChangedHunk(file, issue.line)), verified };
+};
+
+// Commit Messages
+export const STAGED_CHANGES: DiffTarget = { label: "staged changes", args: ["--cached"], newSide: "index" };
+
+// Plain unified diff text for a parsed file, with a one-line note for renames and binary files.
+const formatDiffFile = (file: DiffFile): string => {
+    const header = file.status === "renamed" ? `renamed ${file.oldPath} -> ${file.path}` : `${file.status} ${file.path}`;
+    if (file.binary) {
+        return `${header} (binary)`;
+    }
+    const hunks = file.hunks.map((hunk) =>
+        [`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`, ...hunk.lines].join("\n"));
+    return [header, ...hunks].join("\n");
+};
+
+const commitConventionInstructions = (config: Config): string => {
+    const subject = `Keep the subject line at most ${config.commitMessageSubjectLength} characters, in the imperative mood, without a trailing period.`;
+    return config.commitMessageConvention === "template"
+        ? `Follow this template, replacing the placeholders in angle brackets:\n${config.commitMessageTemplate}\n${subject}`
+        : `Follow the Conventional Commits specification: "<type>(<optional scope>): <subject>", where type is one of feat, fix, docs, style, refactor, perf, test, build, ci or chore. Add a blank line and a short body when the change needs explanation, and a "BREAKING CHANGE:" footer for breaking changes. ${subject}`;
+};
+
+// Removes fences and preambles, and shortens a subject the model left too long at a word boundary.
+export const normalizeCommitMessage = (text: string, maxSubjectLength: number): string => {
+    const lines = splitLines(text.replace(/^\s*```[\w-]*\n?|\n?```\s*$/g, "").trim());
+    if (lines.length > 1 && /^(here is|here's|commit message)\b.*:$/i.test(lines[0].trim())) {
+        lines.shift();
+    }
+    let subject = lines[0]?.trim() ?? "";
+    if (subject.length > maxSubjectLength) {
+        const cut = subject.slice(0, maxSubjectLength + 1);
+        subject = (cut.lastIndexOf(" ") > maxSubjectLength / 2 ? cut.slice(0, cut.lastIndexOf(" ")) : cut.slice(0, maxSubjectLength)).replace(/[\s.,;:]+$/, "");
+    }
+    return [subject, ...lines.slice(1)].join("\n").trim();
+};
+
+// Returns the diff as prompt context when it fits the context window next to the prompt. Larger
+// diffs are first summarised file by file, and the summaries are used instead.
+const fitDiffContext = async (files: DiffFile[], prompt: string, config: Config, provider: LLMProvider, signal?: AbortSignal): Promise<ContextPart[]> => {
+    const parts: ContextPart[] = files.map((file) => ({ kind: "file", label: `diff: ${file.path}`, content: formatDiffFile(file) }));
+    const fitted = fitContextBudget(provider, prompt, parts);
+    if (!fitted.dropped.length) {
+        return fitted.parts;
+    }
+    log(`Diff too large for one prompt, summarising ${files.length} files first`, "INFO");
+    const summaries: ContextPart[] = [];
+    for (const file of files) {
+        const summaryIntro = `Summarise the following change to ${file.path} in at most three short bullet points. Focus on behaviour, not formatting.`;
+        const diff = fitContextBudget(provider, summaryIntro, [{ kind: "file", label: `diff: ${file.path}`, content: formatDiffFile(file) }]);
+        const summary = await getLLMResponse(`${summaryIntro}\n\`\`\`diff\n${diff.parts[0]?.content ?? ""}\n\`\`\``, config, [], provider, { signal, sanitize: false, command: "gitDiff", file: file.path });
+        summaries.push({ kind: "file", label: `summary of ${file.path}`, content: summary.trim() });
+    }
+    return fitContextBudget(provider, prompt, summaries).parts;
+};
+
+export const generateCommitMessage = async (files: DiffFile[], config: Config, provider: LLMProvider, signal?: AbortSignal): Promise<string> => {
+    const intro = "Write a commit message for the following staged changes.";
+    const instructions = `${commitConventionInstructions(config)}\nRespond with the commit message only, without code fences or commentary.`;
+    const context = await fitDiffContext(files, `${intro}\n${instructions}`, config, provider, signal);
+    const prompt = `${intro}\n\n${renderContextParts(context)}\n\n${instructions}`;
+    const response = await getLLMResponse(prompt, config, [], provider, { signal, sanitize: false, command: "gitDiff" });
+    return normalizeCommitMessage(response, config.commitMessageSubjectLength);
+};
+
+// Pull Request Descriptions
+const MAX_PR_COMMITS = 200;
+
+export const getBranchCommits = async (root: string, base: string): Promise<Array<{ hash: string; subject: string; body: string }>> => {
+    const output = await runGit(["log", "--no-merges", `--max-count=${MAX_PR_COMMITS}`, "--format=%h%x1f%s%x1f%b%x1e", `${base}..HEAD`], root);
+    return output.split("\x1e")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+            const [hash, subject, body = ""] = entry.split("\x1f");
+            return { hash, subject, body: body.trim() };
+        });
+};
+
+export const generatePrDescription = async (
+    files: DiffFile[],
+    commits: Array<{ hash: string; subject: string; body: string }>,
+    base: string,
+    config: Config,
+    provider: LLMProvider,
+    signal?: AbortSignal
+): Promise<string> => {
+    const commitList = commits.map((commit) => `- ${commit.hash} ${commit.subject}${commit.body ? `\n  ${commit.body.replace(/\n/g, "\n  ")}` : ""}`).join("\n");
+    const intro = `Write a pull request description for a branch with ${commits.length} commit(s) on top of ${base}.\n\nCommits:\n${commitList || "(none)"}`;
+    const instructions = `Fill in this Markdown template. Group the notable changes by area (module, feature or layer), call out risks honestly, and base the testing notes on the tests that actually changed. Respond with the Markdown only.\n\n${config.prDescriptionTemplate}`;
+    const context = await fitDiffContext(files, `${intro}\n${instructions}`, config, provider, signal);
+    const prompt = `${intro}\n\nCombined diff:\n${renderContextParts(context)}\n\n${instructions}`;
+    const response = await getLLMResponse(prompt, config, [], provider, { signal, sanitize: false, command: "gitDiff" });
+    return response.replace(/^\s*```(?:markdown|md)?\n([\s\S]*?)\n```\s*$/, "$1").trim();
+};
+
+// Commit Gate
+// Reviews the staged changes file by file and keeps the findings at or above the configured
+// severity. The commit is blocked when any file has one. Reviews are always requested as JSON so
+// findings are not lost to free-form text; files whose review never validates are listed as
+// unverified, and block the commit as well.
+export const runCommitGate = async (
+    root: string,
+    config: Config,
+    provider: LLMProvider,
+    signal?: AbortSignal
+): Promise<{ reviewed: number; blocking: Array<{ path: string; issues: Issue[] }>; unverified: string[] }> => {
+    const files = (await getGitDiff(root, STAGED_CHANGES, signal)).filter((file) =>
+        !file.binary && file.status !== "deleted" && file.hunks.length && matchesFilePatterns(file.path, config));
+    const blocking: Array<{ path: string; issues: Issue[] }> = [];
+    const unverified: string[] = [];
+    for (const file of files) {
+        const { issues, verified } = await reviewDiffFile(file, config, provider, signal, true);
+        if (!verified) {
+            unverified.push(file.path);
+        }
+        const blockers = issues.filter((issue) => meetsSeverity(issue.severity, config.commitGateSeverity));
+        if (blockers.length) {
+            blocking.push({ path: file.path, issues: blockers });
+        }
+    }
+    return { reviewed: files.length, blocking, unverified };
+};
@@ -0,0 +1,63 @@
+import axios from "axios";
+import { UsageRecord } from "./types";
+
+export type LogLevel = "INFO" | "ERROR" | "DEBUG";
+
+// What the core needs from whoever embeds it: the extension routes these to its output channel
+// and notifications, the CLI to stderr.
+export interface Host {
+    log(message: string, level: LogLevel): void;
+    // Failures the user has to act on: a misconfigured provider, or a request that exhausted its retries.
+    notifyError(message: string, kind: "provider" | "request"): void;
+    // Called when a provider rejects its credentials, before the request fails.
+    reconfigure(): Promise<void>;
+    // Called after every successful request with the tokens it used.
+    recordUsage(record: UsageRecord): void;
+}
+
+let host: Host = {
+    log: () => undefined,
+    notifyError: () => undefined,
+    reconfigure: async () => undefined,
+    recordUsage: () => undefined,
+};
+
+export const setHost = (next: Host): void => {
+    host = next;
+};
+
+export const log = (message: string, level: LogLevel = "INFO"): void => host.log(message, level);
+
+export const notifyError = (message: string, kind: "provider" | "request"): void => host.notifyError(message, kind);
+
+export const reconfigure = (): Promise<void> => host.reconfigure();
+
+export const recordUsage = (record: UsageRecord): void => host.recordUsage(record);
+
+// Named like vscode.CancellationError, so both read the same in logs.
+export class CancellationError extends Error {
+    constructor() {
+        super("Canceled");
+        this.name = "Canceled";
+    }
+}
+
+export const isCancellation = (error: unknown): boolean =>
+    error instanceof CancellationError || (error instanceof Error && error.name === "Canceled") || axios.isCancel(error);
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new CancellationError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new CancellationError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
@@ -0,0 +1,72 @@
+const EXPORT_CONDITIONS = ["types", "import", "require", "node", "default"];
+
+export const extractJsImports = (content: string): string[] => {
+    const patterns = [
+        /\b(?:import|export)\s+(?:type\s+)?[\w*${}\s,]*?\s*from\s*["']([^"'\n]+)["']/g,
+        /\bimport\s*["']([^"'\n]+)["']/g,
+        /\b(?:import|require)\s*\(\s*["']([^"'\n]+)["']\s*\)/g,
+    ];
+    return Array.from(new Set(patterns.flatMap((pattern) => Array.from(content.matchAll(pattern), (match) => match[1]))));
+};
+
+export const extractPythonImports = (content: string): Array<{ module: string; names: string[] }> => {
+    const imports: Array<{ module: string; names: string[] }> = [];
+    for (const match of content.matchAll(/^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n#]+)/gm)) {
+        const names = match[2].replace(/[()\\]/g, " ").split(",")
+            .map((name) => name.trim().split(/\s+/)[0])
+            .filter((name) => name && name !== "*");
+        imports.push({ module: match[1], names });
+    }
+    for (const match of content.matchAll(/^[ \t]*import[ \t]+([\w.]+(?:[ \t]+as[ \t]+\w+)?(?:[ \t]*,[ \t]*[\w.]+(?:[ \t]+as[ \t]+\w+)?)*)/gm)) {
+        match[1].split(",").forEach((part) => imports.push({ module: part.trim().split(/\s+/)[0], names: [] }));
+    }
+    return imports;
+};
+
+export const matchPathPattern = (pattern: string, specifier: string): string | undefined => {
+    const star = pattern.indexOf("*");
+    if (star < 0) {
+        return pattern === specifier ? "" : undefined;
+    }
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    return specifier.length >= prefix.length + suffix.length && specifier.startsWith(prefix) && specifier.endsWith(suffix)
+        ? specifier.slice(prefix.length, specifier.length - suffix.length)
+        : undefined;
+};
+
+// Resolves a package.json "exports" entry for a subpath such as "." or "./utils", preferring the
+// conditions that point at sources or type declarations.
+export const resolvePackageExports = (packageExports: unknown, subpath: string): string | undefined => {
+    const resolveTarget = (target: unknown): string | undefined => {
+        if (typeof target === "string") {
+            return target;
+        }
+        if (Array.isArray(target)) {
+            return target.map(resolveTarget).find((resolved) => resolved !== undefined);
+        }
+        if (target && typeof target === "object") {
+            for (const condition of EXPORT_CONDITIONS) {
+                const resolved = condition in target ? resolveTarget((target as Record<string, unknown>)[condition]) : undefined;
+                if (resolved) {
+                    return resolved;
+                }
+            }
+        }
+        return undefined;
+    };
+    if (!packageExports || typeof packageExports !== "object" || Array.isArray(packageExports) || !Object.keys(packageExports).some((key) => key.startsWith("."))) {
+        return subpath === "." ? resolveTarget(packageExports) : undefined;
+    }
+    const entries = packageExports as Record<string, unknown>;
+    if (subpath in entries) {
+        return resolveTarget(entries[subpath]);
+    }
+    for (const [key, target] of Object.entries(entries)) {
+        const match = key.includes("*") ? matchPathPattern(key, subpath) : undefined;
+        if (match !== undefined) {
+            return resolveTarget(target)?.replace(/\*/g, match);
+        }
+    }
+    return undefined;
+};
@@ -0,0 +1,223 @@
+import { PatchHunk, PatchResult } from "./types";
+
+const FUZZY_MATCH_THRESHOLD = 0.8;
+const MAX_DIFF_CELLS = 4_000_000;
+export const PATCH_FORMAT_INSTRUCTIONS = `Format every suggested change as a SEARCH/REPLACE block that quotes the original lines exactly:
+<<<<<<< SEARCH
+(original lines to change, including a line or two of unchanged context)
+=======
+(replacement lines)
+>>>>>>> REPLACE
+Use one block per change. Only if the whole file must be rewritten, return the complete file in a single code block tagged \`full\` (for example \`\`\`typescript full).`;
+
+export const splitLines = (text: string): string[] => text.replace(/\r\n/g, "\n").split("\n");
+
+const normalizeWhitespace = (line: string): string => line.trim().replace(/\s+/g, " ");
+
+export const trimBlankEdges = (lines: string[]): string[] => {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && !lines[start].trim()) {
+        start++;
+    }
+    while (end > start && !lines[end - 1].trim()) {
+        end--;
+    }
+    return lines.slice(start, end);
+};
+
+const leadingWhitespace = (line: string): string => line.match(/^\s*/)![0];
+
+// Locates the search lines in the file: exact match first, then whitespace-insensitive, then the
+// most similar window scoring at least FUZZY_MATCH_THRESHOLD. Ambiguous matches resolve to the
+// candidate closest to the hunk's line hint.
+const locateHunk = (lines: string[], search: string[], hint?: number): number | undefined => {
+    const target = hint !== undefined ? hint - 1 : 0;
+    const closer = (a: number, b: number) => Math.abs(a - target) < Math.abs(b - target);
+    const comparisons = [
+        (a: string, b: string) => a === b,
+        (a: string, b: string) => normalizeWhitespace(a) === normalizeWhitespace(b),
+    ];
+    for (const equals of comparisons) {
+        let best: number | undefined;
+        for (let i = 0; i + search.length <= lines.length; i++) {
+            if (search.every((line, j) => equals(lines[i + j], line)) && (best === undefined || closer(i, best))) {
+                best = i;
+            }
+        }
+        if (best !== undefined) {
+            return best;
+        }
+    }
+
+    let best: number | undefined;
+    let bestScore = 0;
+    for (let i = 0; i + search.length <= lines.length; i++) {
+        const score = search.filter((line, j) => normalizeWhitespace(lines[i + j]) === normalizeWhitespace(line)).length / search.length;
+        if (score > bestScore || (score === bestScore && best !== undefined && closer(i, best))) {
+            best = i;
+            bestScore = score;
+        }
+    }
+    return bestScore >= FUZZY_MATCH_THRESHOLD ? best : undefined;
+};
+
+// Applies hunks one after another, so each search block is matched against the already patched text.
+export const applyHunks = (original: string, hunks: PatchHunk[]): PatchResult => {
+    const eol = original.includes("\r\n") ? "\r\n" : "\n";
+    let lines = splitLines(original);
+    const applied: PatchHunk[] = [];
+    const failed: Array<{ hunk: PatchHunk; reason: string }> = [];
+
+    for (const hunk of hunks) {
+        const search = trimBlankEdges(splitLines(hunk.search));
+        let replace = trimBlankEdges(splitLines(hunk.replace));
+        if (!search.length) {
+            if (hunk.startLine === undefined) {
+                failed.push({ hunk, reason: "Empty search block without a line hint" });
+                continue;
+            }
+            const at = Math.min(Math.max(0, hunk.startLine - 1), lines.length);
+            lines = [...lines.slice(0, at), ...replace, ...lines.slice(at)];
+            applied.push(hunk);
+            continue;
+        }
+
+        const start = locateHunk(lines, search, hunk.startLine);
+        if (start === undefined) {
+            failed.push({ hunk, reason: "Search block does not match the current file" });
+            continue;
+        }
+
+        // Re-indent the replacement when the model quoted the code with different indentation.
+        const firstSearchLine = search.find((line) => line.trim());
+        const firstMatchedLine = lines.slice(start, start + search.length).find((line) => line.trim());
+        if (firstSearchLine !== undefined && firstMatchedLine !== undefined) {
+            const from = leadingWhitespace(firstSearchLine);
+            const to = leadingWhitespace(firstMatchedLine);
+            if (from !== to) {
+                replace = replace.map((line) => (line.startsWith(from) ? to + line.slice(from.length) : line));
+            }
+        }
+        lines = [...lines.slice(0, start), ...replace, ...lines.slice(start + search.length)];
+        applied.push(hunk);
+    }
+
+    return { content: lines.join(eol), applied, failed };
+};
+
+// The original lines a hunk replaces and the re-indented text it puts there, for reporting a
+// suggestion against the unpatched file. Insertions without a search block have no range.
+export const locateHunkRange = (original: string, hunk: PatchHunk): { startLine: number; endLine: number; text: string } | undefined => {
+    const search = trimBlankEdges(splitLines(hunk.search));
+    const lines = splitLines(original);
+    const start = search.length ? locateHunk(lines, search, hunk.startLine) : undefined;
+    if (start === undefined) {
+        return undefined;
+    }
+    const patched = splitLines(applyHunks(original, [hunk]).content);
+    const replaced = patched.slice(start, start + search.length + patched.length - lines.length);
+    return { startLine: start + 1, endLine: start + search.length, text: replaced.join("\n") };
+};
+
+export const parseSearchReplaceBlocks = (text: string): PatchHunk[] =>
+    Array.from(text.matchAll(/<{5,9} ?SEARCH([^\n]*)\n([\s\S]*?)\n?={5,9}\n([\s\S]*?)\n?>{5,9} ?REPLACE/g)).map((match) => {
+        const hint = match[1].match(/line\s+(\d+)/i);
+        return { search: match[2], replace: match[3], startLine: hint ? parseInt(hint[1]) : undefined };
+    });
+
+const parseUnifiedDiffHunks = (diff: string): PatchHunk[] => {
+    const hunks: PatchHunk[] = [];
+    let current: { search: string[]; replace: string[]; startLine: number } | undefined;
+    const flush = () => {
+        if (current) {
+            hunks.push({ search: current.search.join("\n"), replace: current.replace.join("\n"), startLine: current.startLine });
+        }
+        current = undefined;
+    };
+    for (const line of splitLines(diff)) {
+        const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+        if (header) {
+            flush();
+            current = { search: [], replace: [], startLine: parseInt(header[1]) };
+        } else if (/^(diff --git|index |--- |\+\+\+ )/.test(line) && (!current || line.startsWith("diff --git") || /^(--- a\/|\+\+\+ b\/|--- \/dev\/null|\+\+\+ \/dev\/null)/.test(line))) {
+            flush();
+        } else if (current) {
+            if (line.startsWith("-")) {
+                current.search.push(line.slice(1));
+            } else if (line.startsWith("+")) {
+                current.replace.push(line.slice(1));
+            } else if (line.startsWith(" ") || line === "") {
+                current.search.push(line.slice(1));
+                current.replace.push(line.slice(1));
+            } else if (!line.startsWith("\\")) {
+                flush();
+            }
+        }
+    }
+    flush();
+    return hunks;
+};
+
+// A fenced block only replaces the whole file when it is tagged `full`, or when it is plainly the
+// complete file: similar length and the same first and last non-blank lines as the original.
+const isCompleteFile = (candidate: string, original: string): boolean => {
+    const candidateLines = trimBlankEdges(splitLines(candidate));
+    const originalLines = trimBlankEdges(splitLines(original));
+    if (!candidateLines.length || !originalLines.length) {
+        return false;
+    }
+    return candidateLines.length >= originalLines.length * FUZZY_MATCH_THRESHOLD
+        && normalizeWhitespace(candidateLines[0]) === normalizeWhitespace(originalLines[0])
+        && normalizeWhitespace(candidateLines[candidateLines.length - 1]) === normalizeWhitespace(originalLines[originalLines.length - 1]);
+};
+
+export const parsePatchSuggestions = (review: string, original: string): { hunks: PatchHunk[]; replacementContent?: string } => {
+    const hunks = parseSearchReplaceBlocks(review);
+    const fences = Array.from(review.matchAll(/```([^\n]*)\n([\s\S]*?)```/g));
+    for (const [, info, body] of fences) {
+        if (/^(diff|patch)\b/i.test(info.trim())) {
+            hunks.push(...parseUnifiedDiffHunks(body));
+        }
+    }
+    if (hunks.length) {
+        return { hunks };
+    }
+    const full = fences.find(([, info]) => /\bfull\b/i.test(info)) ?? fences.find(([, , body]) => isCompleteFile(body, original));
+    return { hunks, replacementContent: full?.[2] };
+};
+
+export const formatHunks = (hunks: PatchHunk[]): string =>
+    hunks
+        .map((hunk) => `${hunk.description ? `${hunk.description}\n` : ""}<<<<<<< SEARCH${hunk.startLine ? ` (line ${hunk.startLine})` : ""}\n${hunk.search}\n=======\n${hunk.replace}\n>>>>>>> REPLACE`)
+        .join("\n\n");
+
+// Line diff via longest common subsequence; very large inputs degrade to remove-all/add-all.
+export const diffLines = (before: string[], after: string[]): Array<{ type: " " | "-" | "+"; text: string }> => {
+    if (before.length * after.length > MAX_DIFF_CELLS) {
+        return [...before.map((text) => ({ type: "-" as const, text })), ...after.map((text) => ({ type: "+" as const, text }))];
+    }
+    const width = after.length + 1;
+    const lcs = new Uint32Array((before.length + 1) * width);
+    for (let i = before.length - 1; i >= 0; i--) {
+        for (let j = after.length - 1; j >= 0; j--) {
+            lcs[i * width + j] = before[i] === after[j]
+                ? lcs[(i + 1) * width + j + 1] + 1
+                : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+        }
+    }
+    const result: Array<{ type: " " | "-" | "+"; text: string }> = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length || j < after.length) {
+        if (i < before.length && j < after.length && before[i] === after[j]) {
+            result.push({ type: " ", text: before[i++] });
+            j++;
+        } else if (i < before.length && (j === after.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+            result.push({ type: "-", text: before[i++] });
+        } else {
+            result.push({ type: "+", text: after[j++] });
+        }
+    }
+    return result;
+};
@@ -0,0 +1,29 @@
+import { Config } from "./types";
+
+export const DEFAULT_PR_DESCRIPTION_TEMPLATE = `## Summary
+<what the branch does and why, in a short paragraph>
+
+## Notable changes
+<bullets grouped under a ### heading per area>
+
+## Risks
+<behaviour changes, migrations or areas reviewers should check closely>
+
+## Testing
+<how the change was tested and what is still untested>`;
+
+export const defaultReviewPrompt = (llmProvider: string): string =>
+    llmProvider === "flowise"
+        ? `You are a Flowise-powered code reviewer. Analyze the following code:\n\`\`\`\n{content}\n\`\`\`\nProvide a markdown review with sections: Code Quality, Issues (with line numbers), Performance, Security, and Suggested Changes (as SEARCH/REPLACE blocks).`
+        : `You are an expert code reviewer. Review the following code from {filename}:\n\`\`\`\n{content}\n\`\`\`\nProvide a detailed review in markdown format with the following sections:\n1. **Code Quality**: Assess readability, maintainability, and adherence to best practices.\n2. **Potential Issues**: Identify bugs or logical errors with specific line numbers.\n3. **Performance**: Suggest optimizations for efficiency.\n4. **Security**: Highlight potential vulnerabilities.\n5. **Suggested Changes**: Provide the recommended changes as SEARCH/REPLACE blocks.\n6. **Issues List**: Summarize issues in a bullet list with line numbers and severity (High/Medium/Low).\nEnsure the review is concise, actionable, and includes specific examples.`;
+
+// Sent by the providers whose APIs take a separate system prompt, unless the setting overrides it.
+export const DEFAULT_SYSTEM_PROMPT = "You are LLMCoderAgent, a coding assistant inside VS Code. Answer precisely and follow the output format each request asks for.";
+
+export const DEFAULT_STRUCTURED_REVIEW_PROMPT = `You are an expert code reviewer. Review the following code from {filename}. Each line is prefixed with its line number:\n\`\`\`\n{content}\n\`\`\`\nReport bugs, security vulnerabilities, performance problems and maintainability concerns. Cite exact line numbers and keep each message concise and actionable.`;
+
+// A custom explain prompt may use the same {filename} and {content} placeholders as review prompts.
+export const buildExplainPrompt = (config: Config, filename: string, code: string): string =>
+    config.explainPrompt
+        ? config.explainPrompt.replace("{filename}", filename).replace("{content}", code)
+        : `Explain the following code from ${filename}:\n\`\`\`\n${code}\n\`\`\`\nProvide a clear and concise explanation in markdown format.`;
@@ -0,0 +1,1068 @@
+import axios, { AxiosError } from "axios";
+import { createHash } from "crypto";
+import sanitizeHtml from "sanitize-html";
+import { estimateTokenCount, resolveContextWindow } from "./context";
+import { CancellationError, isCancellation, log, notifyError, reconfigure, recordUsage, sleep } from "./host";
+import { rateLimitsFor, scheduler } from "./scheduler";
+import { ChatMessage, Config, LLMProvider, RequestOptions, ResponseOptions, TokenUsage } from "./types";
+
+// Ollama runs every model at its default num_ctx unless a request overrides it, whatever the model supports.
+const OLLAMA_DEFAULT_CONTEXT_WINDOW = 4096;
+// The model behind a chatflow is unknown, so assume a small one.
+const FLOWISE_DEFAULT_CONTEXT_WINDOW = 4096;
+const OPENAI_DEFAULT_CONTEXT_WINDOW = 8192;
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const ANTHROPIC_DEFAULT_CONTEXT_WINDOW = 200_000;
+const ANTHROPIC_API_VERSION = "2023-06-01";
+// Matched against the model name in order, so more specific prefixes come first.
+const OPENAI_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+    [/^gpt-5/, 400_000],
+    [/^gpt-4\.1/, 1_047_576],
+    [/^(gpt-4o|gpt-4-turbo|gpt-4-\d{4}-preview)/, 128_000],
+    [/^gpt-4-32k/, 32_768],
+    [/^gpt-4/, 8_192],
+    [/^gpt-3\.5-turbo-instruct/, 4_096],
+    [/^gpt-3\.5-turbo/, 16_385],
+    [/^o\d/, 200_000],
+];
+
+// Statuses worth retrying: timeouts, conflicts, throttling and server errors. Any other 4xx means
+// the request itself is wrong and will fail the same way again.
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429]);
+// A server asking for a longer wait than this is treated as unavailable rather than waited on.
+const MAX_RETRY_AFTER_MS = 120_000;
+
+// Retry-After is either seconds or an HTTP date; OpenAI also sends retry-after-ms.
+const parseRetryAfter = (headers: Record<string, unknown> | undefined): number | undefined => {
+    const ms = Number(headers?.["retry-after-ms"]);
+    if (headers?.["retry-after-ms"] !== undefined && Number.isFinite(ms)) {
+        return Math.max(0, ms);
+    }
+    const value = headers?.["retry-after"];
+    if (value === undefined || value === null || value === "") {
+        return undefined;
+    }
+    const seconds = Number(value);
+    const date = Date.parse(String(value));
+    return Number.isFinite(seconds) ? Math.max(0, seconds * 1000) : Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// A failed provider request with the HTTP status and the wait the server asked for, when known.
+export class ProviderRequestError extends Error {
+    readonly status?: number;
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, cause?: unknown) {
+        super(message);
+        const response = axios.isAxiosError(cause) ? cause.response : undefined;
+        this.status = response?.status;
+        this.retryAfterMs = response && (response.status === 429 || response.status === 503)
+            ? parseRetryAfter(response.headers as Record<string, unknown>)
+            : undefined;
+    }
+}
+
+const isRetryable = (error: unknown): boolean => {
+    const status = error instanceof ProviderRequestError ? error.status : undefined;
+    return status === undefined || status >= 500 || RETRYABLE_STATUSES.has(status);
+};
+
+// flowiseUrl is the prediction endpoint, https://host/api/v1/prediction. Older settings held the
+// full URL of one chatflow, so a trailing chatflow ID is split off and used when none is set.
+export const parseFlowiseUrl = (url: string): { predictionUrl: string; apiRoot: string; chatflowId?: string } => {
+    const trimmed = url.trim().replace(/\/+$/, "");
+    const match = trimmed.match(/^(.*\/prediction)(?:\/([^/]+))?$/);
+    const predictionUrl = match ? match[1] : trimmed;
+    return { predictionUrl, apiRoot: predictionUrl.replace(/\/prediction$/, ""), chatflowId: match?.[2] };
+};
+
+export interface FlowiseChatflow {
+    id: string;
+    name: string;
+}
+
+// Lists the chatflows the API key can see, for picking one while configuring.
+export const listFlowiseChatflows = async (config: Config, apiKey?: string): Promise<FlowiseChatflow[]> => {
+    const response = await axios.get(`${parseFlowiseUrl(config.flowiseUrl).apiRoot}/chatflows`, {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        timeout: config.apiTimeout,
+    });
+    return (Array.isArray(response.data) ? response.data : [])
+        .map((flow: { id: string; name?: string }) => ({ id: flow.id, name: flow.name || flow.id }))
+        .sort((a: FlowiseChatflow, b: FlowiseChatflow) => a.name.localeCompare(b.name));
+};
+
+// Chatflows answer with "text"; some agent flows use "response" instead.
+interface FlowisePrediction {
+    text?: string;
+    response?: string;
+}
+
+export class FlowiseProvider implements LLMProvider {
+    private readonly predictionUrl: string;
+    private readonly chatflowId: string;
+    private readonly apiKey?: string;
+    private readonly config: Config;
+
+    // The API key is optional: chatflows without API key protection accept anonymous predictions.
+    constructor(apiKey: string | undefined, config: Config) {
+        const { predictionUrl, chatflowId } = parseFlowiseUrl(config.flowiseUrl);
+        if (!predictionUrl.startsWith("https://") && !predictionUrl.includes("localhost")) {
+            throw this.handleError("Flowise URL must use HTTPS for non-localhost environments.");
+        }
+        this.predictionUrl = predictionUrl;
+        this.chatflowId = config.flowiseChatflowId.trim() || chatflowId || "";
+        if (!this.chatflowId) {
+            throw this.handleError("Flowise chatflow ID is not set.");
+        }
+        this.apiKey = apiKey?.trim() || undefined;
+        this.config = config;
+    }
+
+    getName(): string {
+        return "Flowise";
+    }
+
+    getModel(): string {
+        return this.chatflowId;
+    }
+
+    supportsJsonMode(): boolean {
+        return false;
+    }
+
+    getContextWindow(): number {
+        return resolveContextWindow(this.config, FLOWISE_DEFAULT_CONTEXT_WINDOW);
+    }
+
+    estimateTokens(text: string): number {
+        return estimateTokenCount(text, 3);
+    }
+
+    async getResponse(prompt: string, history: ChatMessage[], options: RequestOptions = {}): Promise<string> {
+        try {
+            const response = await axios.post<FlowisePrediction>(this.endpoint(), this.buildPayload(prompt, history, options), {
+                headers: this.headers(),
+                timeout: this.config.apiTimeout,
+                signal: options.signal,
+            });
+            return this.extractText(response.data);
+        } catch (error) {
+            throw await this.handleRequestError(error);
+        }
+    }
+
+    async streamResponse(prompt: string, history: ChatMessage[], onToken: (token: string) => void, options: RequestOptions = {}): Promise<string> {
+        try {
+            const response = await axios.post(this.endpoint(), { ...this.buildPayload(prompt, history, options), streaming: true }, {
+                headers: this.headers(),
+                timeout: this.config.apiTimeout,
+                responseType: "stream",
+                signal: options.signal,
+            });
+            // Chatflows without a streaming-capable LLM node answer with the regular JSON prediction.
+            if (!String(response.headers["content-type"] || "").includes("text/event-stream")) {
+                const text = this.extractText(JSON.parse(await readStreamText(response.data)) as FlowisePrediction);
+                onToken(text);
+                return text;
+            }
+            let text = "";
+            for await (const data of readServerSentEvents(response.data)) {
+                const event = JSON.parse(data);
+                if (event.event === "token" && typeof event.data === "string") {
+                    text += event.data;
+                    onToken(event.data);
+                } else if (event.event === "error") {
+                    throw new Error(String(event.data));
+                }
+            }
+            return text;
+        } catch (error) {
+            throw await this.handleRequestError(error);
+        }
+    }
+
+    async testConnection(): Promise<boolean> {
+        try {
+            const response = await axios.post(this.endpoint(), { question: "Ping" }, {
+                headers: this.headers(),
+                timeout: this.config.apiTimeout,
+            });
+            return response.status === 200;
+        } catch {
+            return false;
+        }
+    }
+
+    private endpoint(): string {
+        return `${this.predictionUrl}/${encodeURIComponent(this.chatflowId)}`;
+    }
+
+    private headers(): Record<string, string> {
+        return { "Content-Type": "application/json", ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}) };
+    }
+
+    // History goes in Flowise's own format for chatflows without memory; with a sessionId, chatflows
+    // that have memory keep each chat session's conversation apart. The system message is sent
+    // under both names chat chains and agents use for it.
+    private buildPayload(prompt: string, history: ChatMessage[], options: RequestOptions): Record<string, unknown> {
+        const overrideConfig: Record<string, unknown> = {
+            ...this.config.flowiseOverrideConfig,
+            ...(this.config.flowiseTemperature !== undefined ? { temperature: this.config.flowiseTemperature } : {}),
+            ...(this.config.flowiseSystemMessage
+                ? { systemMessagePrompt: this.config.flowiseSystemMessage, systemMessage: this.config.flowiseSystemMessage }
+                : {}),
+            ...(options.sessionId ? { sessionId: options.sessionId } : {}),
+        };
+        return {
+            question: prompt,
+            history: history.map((m) => ({ role: m.role === "user" ? "userMessage" : "apiMessage", content: m.content })),
+            ...(Object.keys(overrideConfig).length ? { overrideConfig } : {}),
+        };
+    }
+
+    private extractText(data: FlowisePrediction | undefined): string {
+        return data?.text || data?.response || JSON.stringify(data) || "";
+    }
+
+    private async handleRequestError(error: unknown): Promise<Error> {
+        if (axios.isCancel(error)) {
+            return new CancellationError();
+        }
+        const err = error as AxiosError;
+        if (err.response?.status === 401 || err.response?.status === 403) {
+            await reconfigure();
+            return this.handleError("Flowise rejected the API key for this chatflow. Please reconfigure using 'configure llm' command.", error);
+        } else if (err.response?.status === 404) {
+            return this.handleError(`Flowise chatflow ${this.chatflowId} was not found at ${this.predictionUrl}.`, error);
+        } else if (err.code === "ECONNREFUSED") {
+            return this.handleError(`Flowise server unreachable at ${this.predictionUrl}. Check the URL and server status.`, error);
+        }
+        return this.handleError(`Flowise API error: ${err.message}`, error);
+    }
+
+    private handleError(msg: string, cause?: unknown): Error {
+        log(msg, "ERROR");
+        notifyError(`Flowise error: ${msg}. Check settings (Ctrl+, search 'llmcoderagent') or Flowise server status.`, "provider");
+        return new ProviderRequestError(msg, cause);
+    }
+}
+
+export interface OpenAICompatibleOptions {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    // "Authorization" sends the key as a bearer token; any other header carries it verbatim,
+    // as Azure's api-key and most gateways expect.
+    authHeader?: string;
+    headers?: Record<string, string>;
+}
+
+// Chat completions against any server that implements the OpenAI API: LM Studio, vLLM,
+// llama.cpp server, LocalAI and gateways in front of hosted models.
+export class OpenAICompatibleProvider implements LLMProvider {
+    private readonly baseUrl: string;
+    private readonly model: string;
+    private readonly headers: Record<string, string>;
+    protected readonly config: Config;
+
+    constructor(options: OpenAICompatibleOptions, config: Config) {
+        this.baseUrl = this.validateBaseUrl(options.baseUrl);
+        this.model = options.model;
+        this.config = config;
+        const apiKey = this.validateApiKey(options.apiKey);
+        const authHeader = options.authHeader?.trim() || "Authorization";
+        this.headers = {
+            ...options.headers,
+            ...(apiKey ? { [authHeader]: authHeader.toLowerCase() === "authorization" ? `Bearer ${apiKey}` : apiKey } : {}),
+            "Content-Type": "application/json",
+        };
+    }
+
+    getName(): string {
+        return "OpenAI-compatible";
+    }
+
+    getModel(): string {
+        return this.model;
+    }
+
+    // response_format is not implemented by every server, so JSON reviews rely on the prompt
+    // unless reviewOutputFormat asks for them.
+    supportsJsonMode(): boolean {
+        return false;
+    }
+
+    getContextWindow(): number {
+        const known = OPENAI_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(this.model));
+        return resolveContextWindow(this.config, known?.[1] ?? OPENAI_DEFAULT_CONTEXT_WINDOW);
+    }
+
+    estimateTokens(text: string): number {
+        return estimateTokenCount(text, 3.5);
+    }
+
+    async getResponse(prompt: string, history: ChatMessage[], options: RequestOptions = {}): Promise<string> {
+        try {
+            const response = await axios.post(`${this.baseUrl}/chat/completions`, this.buildPayload(prompt, history, options), {
+                headers: this.headers,
+                timeout: this.config.apiTimeout,
+                signal: options.signal,
+            });
+            reportOpenAIUsage(response.data.usage, options);
+            return response.data.choices[0].message.content || "";
+        } catch (error) {
+            throw this.handleRequestError(error);
+        }
+    }
+
+    async streamResponse(prompt: string, history: ChatMessage[], onToken: (token: string) => void, options: RequestOptions = {}): Promise<string> {
+        try {
+            const payload = {
+                ...this.buildPayload(prompt, history, options),
+                stream: true,
+                ...(this.streamsUsage() ? { stream_options: { include_usage: true } } : {}),
+            };
+            const response = await axios.post(`${this.baseUrl}/chat/completions`, payload, {
+                headers: this.headers,
+                timeout: this.config.apiTimeout,
+                responseType: "stream",
+                signal: options.signal,
+            });
+            let text = "";
+            for await (const data of readServerSentEvents(response.data)) {
+                if (data === "[DONE]") {
+                    break;
+                }
+                const event = JSON.parse(data);
+                reportOpenAIUsage(event.usage, options);
+                const token = event.choices?.[0]?.delta?.content;
+                if (token) {
+                    text += token;
+                    onToken(token);
+                }
+            }
+            return text;
+        } catch (error) {
+            throw this.handleRequestError(error);
+        }
+    }
+
+    // The ids the server reports under /models, e.g. the models loaded in LM Studio.
+    async listModels(): Promise<string[]> {
+        try {
+            const response = await axios.get(`${this.baseUrl}/models`, { headers: this.headers, timeout: this.config.apiTimeout });
+            return (response.data?.data ?? []).map((model: { id: string }) => model.id).filter(Boolean).sort();
+        } catch (error) {
+            throw this.handleRequestError(error);
+        }
+    }
+
+    // Not every gateway implements /models, so a failed listing falls back to a one-word completion.
+    async testConnection(): Promise<boolean> {
+        try {
+            await this.listModels();
+            return true;
+        } catch {
+            try {
+                const response = await axios.post(`${this.baseUrl}/chat/completions`, {
+                    model: this.model,
+                    messages: [{ role: "user", content: "Ping" }],
+                }, {
+                    headers: this.headers,
+                    timeout: this.config.apiTimeout,
+                });
+                return response.status === 200;
+            } catch {
+                return false;
+            }
+        }
+    }
+
+    // Servers that reject unknown fields fail on stream_options, so only OpenAI itself is asked
+    // to report usage while streaming; the others are estimated.
+    protected streamsUsage(): boolean {
+        return false;
+    }
+
+    private buildPayload(prompt: string, history: ChatMessage[], options: RequestOptions): Record<string, unknown> {
+        return {
+            model: this.model,
+            messages: [...history.map((m) => ({ role: m.role, content: m.content })), { role: "user", content: prompt }],
+            ...(options.responseFormat === "json" && this.supportsJsonMode() ? { response_format: { type: "json_object" } } : {}),
+        };
+    }
+
+    private handleRequestError(error: unknown): Error {
+        if (axios.isCancel(error)) {
+            return new CancellationError();
+        }
+        const err = error as AxiosError;
+        if (err.response?.status === 401 || err.response?.status === 403) {
+            return this.handleError(`${this.getName()} server at ${this.baseUrl} rejected the API key. Please update your key in settings.`, error);
+        } else if (err.code === "ECONNREFUSED") {
+            return this.handleError(`${this.getName()} server unreachable at ${this.baseUrl}. Check the base URL and server status.`, error);
+        }
+        return this.handleError(`${this.getName()} API error: ${err.message}`, error);
+    }
+
+    // A bare host gets the conventional /v1 prefix; anything with a path is taken as given.
+    private validateBaseUrl(baseUrl: string): string {
+        let url: URL;
+        try {
+            url = new URL(baseUrl.trim());
+        } catch {
+            throw this.handleError(`Invalid base URL "${baseUrl}". Use the server's API root, e.g. http://localhost:1234/v1.`);
+        }
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+            throw this.handleError(`Base URL must use http or https, got "${baseUrl}".`);
+        }
+        const path = url.pathname.replace(/\/+$/, "");
+        return `${url.origin}${path || "/v1"}`;
+    }
+
+    // Local servers often need no key and gateways issue keys in any shape; only reject what
+    // cannot be sent in a header.
+    private validateApiKey(apiKey?: string): string | undefined {
+        const key = apiKey?.trim();
+        if (key && /[\s\x00-\x1f]/.test(key)) {
+            throw this.handleError("API key must not contain whitespace or control characters.");
+        }
+        return key || undefined;
+    }
+
+    protected handleError(msg: string, cause?: unknown): Error {
+        log(msg, "ERROR");
+        return new ProviderRequestError(msg, cause);
+    }
+}
+
+const requireOpenAIKey = (apiKey: string): string => {
+    if (!apiKey || !apiKey.startsWith("sk-")) {
+        const msg = "OpenAI API key must start with 'sk-' and be non-empty.";
+        log(msg, "ERROR");
+        throw new Error(msg);
+    }
+    return apiKey;
+};
+
+export const createOpenAICompatibleProvider = (apiKey: string | undefined, config: Config): OpenAICompatibleProvider =>
+    new OpenAICompatibleProvider({
+        baseUrl: config.openaiCompatibleBaseUrl,
+        model: config.openaiCompatibleModel,
+        apiKey,
+        authHeader: config.openaiCompatibleAuthHeader,
+        headers: config.openaiCompatibleHeaders,
+    }, config);
+
+// Chat completions report usage on the response, or on the last event of a stream.
+const reportOpenAIUsage = (usage: { prompt_tokens?: number; completion_tokens?: number } | undefined, options: RequestOptions): void => {
+    if (usage && typeof usage.prompt_tokens === "number") {
+        options.onUsage?.({ inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens ?? 0 });
+    }
+};
+
+export class OpenAIProvider extends OpenAICompatibleProvider {
+    constructor(apiKey: string, model: string, config: Config) {
+        super({ baseUrl: OPENAI_BASE_URL, apiKey: requireOpenAIKey(apiKey), model }, config);
+    }
+
+    getName(): string {
+        return "OpenAI";
+    }
+
+    supportsJsonMode(): boolean {
+        return true;
+    }
+
+    protected streamsUsage(): boolean {
+        return true;
+    }
+}
+
+// Messages API. History has to alternate user and assistant turns starting with the user, and
+// the system prompt goes in its own field rather than the message list.
+export class AnthropicProvider implements LLMProvider {
+    private readonly apiKey: string;
+    private readonly baseUrl: string;
+    private readonly config: Config;
+
+    constructor(apiKey: string, config: Config) {
+        this.apiKey = this.validateApiKey(apiKey);
+        this.baseUrl = config.anthropicBaseUrl.trim().replace(/\/+$/, "");
+        this.config = config;
+    }
+
+    getName(): string {
+        return "Anthropic";
+    }
+
+    getModel(): string {
+        return this.config.anthropicModel;
+    }
+
+    supportsJsonMode(): boolean {
+        return false;
+    }
+
+    getContextWindow(): number {
+        return resolveContextWindow(this.config, ANTHROPIC_DEFAULT_CONTEXT_WINDOW);
+    }
+
+    estimateTokens(text: string): number {
+        return estimateTokenCount(text, 3.5);
+    }
+
+    async getResponse(prompt: string, history: ChatMessage[], options: RequestOptions = {}): Promise<string> {
+        try {
+            const response = await axios.post(`${this.baseUrl}/v1/messages`, this.buildPayload(prompt, history), {
+                headers: this.headers(),
+                timeout: this.config.apiTimeout,
+                signal: options.signal,
+            });
+            const usage = response.data.usage;
+            if (usage) {
+                options.onUsage?.({ inputTokens: usage.input_tokens ?? 0, outputTokens: usage.output_tokens ?? 0 });
+            }
+            return (response.data.content ?? [])
+                .filter((block: { type: string }) => block.type === "text")
+                .map((block: { text: string }) => block.text)
+                .join("");
+        } catch (error) {
+            throw this.handleRequestError(error);
+        }
+    }
+
+    async streamResponse(prompt: string, history: ChatMessage[], onToken: (token: string) => void, options: RequestOptions = {}): Promise<string> {
+        try {
+            const response = await axios.post(`${this.baseUrl}/v1/messages`, { ...this.buildPayload(prompt, history), stream: true }, {
+                headers: this.headers(),
+                timeout: this.config.apiTimeout,
+                responseType: "stream",
+                signal: options.signal,
+            });
+            let text = "";
+            // Input tokens arrive with message_start, the output count with message_delta.
+            let inputTokens: number | undefined;
+            let outputTokens = 0;
+            for await (const data of readServerSentEvents(response.data)) {
+                const event = JSON.parse(data);
+                if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+                    text += event.delta.text;
+                    onToken(event.delta.text);
+                } else if (event.type === "message_start") {
+                    inputTokens = event.message?.usage?.input_tokens;
+                } else if (event.type === "message_delta") {
+                    outputTokens = event.usage?.output_tokens ?? outputTokens;
+                } else if (event.type === "error") {
+                    throw new Error(event.error?.message ?? "Stream error");
+                } else if (event.type === "message_stop") {
+                    break;
+                }
+            }
+            if (inputTokens !== undefined) {
+                options.onUsage?.({ inputTokens, outputTokens });
+            }
+            return text;
+        } catch (error) {
+            throw this.handleRequestError(error);
+        }
+    }
+
+    async testConnection(): Promise<boolean> {
+        try {
+            const response = await axios.post(`${this.baseUrl}/v1/messages`, {
+                model: this.config.anthropicModel,
+                max_tokens: 1,
+                messages: [{ role: "user", content: "Ping" }],
+            }, {
+                headers: this.headers(),
+                timeout: this.config.apiTimeout,
+            });
+            return response.status === 200;
+        } catch {
+            return false;
+        }
+    }
+
+    private headers(): Record<string, string> {
+        return { "x-api-key": this.apiKey, "anthropic-version": ANTHROPIC_API_VERSION, "Content-Type": "application/json" };
+    }
+
+    // Consecutive turns of the same role are merged, and a leading assistant turn (a greeting
+    // restored with a chat session) is dropped.
+    private buildPayload(prompt: string, history: ChatMessage[]): Record<string, unknown> {
+        const messages: Array<{ role: "user" | "assistant"; content: string }> = [];
+        for (const { role, content } of [...history, { role: "user" as const, content: prompt }]) {
+            const last = messages[messages.length - 1];
+            if (last?.role === role) {
+                last.content += `\n\n${content}`;
+            } else if (messages.length || role === "user") {
+                messages.push({ role, content });
+            }
+        }
+        return {
+            model: this.config.anthropicModel,
+            max_tokens: this.config.anthropicMaxTokens,
+            ...(this.config.anthropicSystemPrompt ? { system: this.config.anthropicSystemPrompt } : {}),
+            messages,
+        };
+    }
+
+    private handleRequestError(error: unknown): Error {
+        if (axios.isCancel(error)) {
+            return new CancellationError();
+        }
+        const err = error as AxiosError<{ error?: { message?: unknown } } | undefined>;
+        if (err.response?.status === 401) {
+            return this.handleError("Invalid Anthropic API key. Please update your key in settings.", error);
+        } else if (err.code === "ECONNREFUSED") {
+            return this.handleError(`Anthropic API unreachable at ${this.baseUrl}. Check the base URL.`, error);
+        }
+        // Error bodies are not readable when the request streamed.
+        const detail = typeof err.response?.data?.error?.message === "string" ? err.response.data.error.message : err.message;
+        return this.handleError(`Anthropic API error: ${detail}`, error);
+    }
+
+    private validateApiKey(apiKey: string): string {
+        const key = apiKey?.trim();
+        if (!key || /\s/.test(key)) {
+            throw this.handleError("Anthropic API key must be non-empty and contain no whitespace.");
+        }
+        return key;
+    }
+
+    private handleError(msg: string, cause?: unknown): Error {
+        log(msg, "ERROR");
+        return new ProviderRequestError(msg, cause);
+    }
+}
+
+// OLLAMA_HOST style addresses such as 127.0.0.1:11434 are accepted without a scheme.
+export const ollamaEndpoint = (config: Config, path: string): string => {
+    const host = config.ollamaHost.trim().replace(/\/+$/, "");
+    return `${/^https?:\/\//.test(host) ? host : `http://${host}`}${path}`;
+};
+
+// One object of an Ollama response. Chat responses carry the message, and the last streamed chunk
+// says done; pulls stream status lines with byte counts while layers download.
+interface OllamaChunk {
+    message?: { content?: string };
+    done?: boolean;
+    prompt_eval_count?: number;
+    eval_count?: number;
+    status?: string;
+    completed?: number;
+    total?: number;
+    error?: string;
+}
+
+// The final response carries the prompt and generated token counts. prompt_eval_count is left
+// out when Ollama reused a cached prompt.
+const reportOllamaUsage = (data: OllamaChunk | undefined, options: RequestOptions): void => {
+    if (typeof data?.eval_count === "number") {
+        options.onUsage?.({ inputTokens: data.prompt_eval_count ?? 0, outputTokens: data.eval_count });
+    }
+};
+
+export class OllamaProvider implements LLMProvider {
+    private readonly config: Config;
+
+    constructor(config: Config) {
+        this.config = config;
+    }
+
+    getName(): string {
+        return "Ollama";
+    }
+
+    getModel(): string {
+        return this.config.ollamaModel;
+    }
+
+    supportsJsonMode(): boolean {
+        return true;
+    }
+
+    getContextWindow(): number {
+        return resolveContextWindow(this.config, OLLAMA_DEFAULT_CONTEXT_WINDOW);
+    }
+
+    estimateTokens(text: string): number {
+        return estimateTokenCount(text, 3);
+    }
+
+    // A configured window is passed on as num_ctx, otherwise Ollama would still cut at its default.
+    private requestOptions(): { num_ctx: number } | undefined {
+        return this.config.contextWindow > 0 ? { num_ctx: this.config.contextWindow } : undefined;
+    }
+
+    private buildPayload(prompt: string, history: ChatMessage[], stream: boolean, options: RequestOptions) {
+        return {
+            model: this.config.ollamaModel,
+            messages: [
+                ...(this.config.ollamaSystemPrompt ? [{ role: "system", content: this.config.ollamaSystemPrompt }] : []),
+                ...history.map((m) => ({ role: m.role, content: m.content })),
+                { role: "user", content: prompt },
+            ],
+            stream,
+            format: options.responseFormat === "json" ? "json" : undefined,
+            options: this.requestOptions(),
+        };
+    }
+
+    async getResponse(prompt: string, history: ChatMessage[], options: RequestOptions = {}): Promise<string> {
+        try {
+            const response = await axios.post<OllamaChunk>(ollamaEndpoint(this.config, "/api/chat"), this.buildPayload(prompt, history, false, options), {
+                headers: { "Content-Type": "application/json" },
+                timeout: this.config.apiTimeout,
+                signal: options.signal,
+            });
+            reportOllamaUsage(response.data, options);
+            return response.data.message?.content || "";
+        } catch (error) {
+            throw this.handleRequestError(error);
+        }
+    }
+
+    async streamResponse(prompt: string, history: ChatMessage[], onToken: (token: string) => void, options: RequestOptions = {}): Promise<string> {
+        try {
+            const response = await axios.post(ollamaEndpoint(this.config, "/api/chat"), this.buildPayload(prompt, history, true, options), {
+                headers: { "Content-Type": "application/json" },
+                timeout: this.config.apiTimeout,
+                responseType: "stream",
+                signal: options.signal,
+            });
+            let text = "";
+            for await (const chunk of readJsonLines(response.data)) {
+                const token = chunk.message?.content;
+                if (token) {
+                    text += token;
+                    onToken(token);
+                }
+                if (chunk.done) {
+                    reportOllamaUsage(chunk, options);
+                    break;
+                }
+            }
+            return text;
+        } catch (error) {
+            throw this.handleRequestError(error);
+        }
+    }
+
+    async testConnection(): Promise<boolean> {
+        try {
+            const response = await axios.get(ollamaEndpoint(this.config, "/api/tags"), {
+                timeout: this.config.apiTimeout,
+            });
+            return response.status === 200;
+        } catch {
+            return false;
+        }
+    }
+
+    // Names of the installed models, as "name:tag".
+    async listModels(): Promise<string[]> {
+        try {
+            const response = await axios.get(ollamaEndpoint(this.config, "/api/tags"), { timeout: this.config.apiTimeout });
+            return (response.data?.models ?? []).map((model: { name: string }) => model.name).sort();
+        } catch (error) {
+            throw this.handleRequestError(error);
+        }
+    }
+
+    // Ollama resolves a model name without a tag to ":latest".
+    async hasModel(model: string): Promise<boolean> {
+        const installed = await this.listModels();
+        return installed.includes(model) || (!model.includes(":") && installed.includes(`${model}:latest`));
+    }
+
+    // Downloads a model, reporting each status line Ollama streams (with byte counts while layers
+    // download). Pulls take minutes, so only the signal ends them early.
+    async pullModel(model: string, onStatus: (status: string, completed?: number, total?: number) => void, signal?: AbortSignal): Promise<void> {
+        try {
+            const response = await axios.post(ollamaEndpoint(this.config, "/api/pull"), { model, stream: true }, {
+                headers: { "Content-Type": "application/json" },
+                responseType: "stream",
+                signal,
+            });
+            for await (const chunk of readJsonLines(response.data)) {
+                onStatus(chunk.status ?? "", chunk.completed, chunk.total);
+            }
+        } catch (error) {
+            throw this.handleRequestError(error);
+        }
+    }
+
+    private handleRequestError(error: unknown): Error {
+        if (axios.isCancel(error)) {
+            return new CancellationError();
+        }
+        if ((error as AxiosError).code === "ECONNREFUSED") {
+            return this.handleError(`Ollama server unreachable at ${ollamaEndpoint(this.config, "")}. Check the ollamaHost setting and that Ollama is running.`, error);
+        }
+        return this.handleError(`Ollama API error: ${error instanceof Error ? error.message : "Unknown error"}`, error);
+    }
+
+    private handleError(msg: string, cause?: unknown): Error {
+        log(msg, "ERROR");
+        return new ProviderRequestError(msg, cause);
+    }
+}
+
+async function* readStreamLines(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const chunk of stream) {
+        buffer += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+        let newline: number;
+        while ((newline = buffer.indexOf("\n")) >= 0) {
+            yield buffer.slice(0, newline).replace(/\r$/, "");
+            buffer = buffer.slice(newline + 1);
+        }
+    }
+    buffer += decoder.decode();
+    if (buffer) {
+        yield buffer;
+    }
+}
+
+// Newline-delimited JSON, as Ollama streams it; an error object ends the stream.
+async function* readJsonLines(stream: AsyncIterable<Buffer | string>): AsyncGenerator<OllamaChunk> {
+    for await (const line of readStreamLines(stream)) {
+        if (!line.trim()) {
+            continue;
+        }
+        const chunk = JSON.parse(line) as OllamaChunk;
+        if (chunk.error) {
+            throw new Error(chunk.error);
+        }
+        yield chunk;
+    }
+}
+
+// Yields the data payload of each server-sent event, joining multi-line data fields.
+async function* readServerSentEvents(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+    let data: string[] = [];
+    for await (const line of readStreamLines(stream)) {
+        if (line.startsWith("data:")) {
+            data.push(line.slice(5).replace(/^ /, ""));
+        } else if (!line.trim() && data.length) {
+            yield data.join("\n");
+            data = [];
+        }
+    }
+    if (data.length) {
+        yield data.join("\n");
+    }
+}
+
+const readStreamText = async (stream: AsyncIterable<Buffer | string>): Promise<string> => {
+    const lines: string[] = [];
+    for await (const line of readStreamLines(stream)) {
+        lines.push(line);
+    }
+    return lines.join("\n");
+};
+
+// A provider with fallbacks. Requests go to the current provider; when one exhausts its retries,
+// advance() moves to the next fallback that connects, and later requests stay there.
+export class ProviderChain implements LLMProvider {
+    private current: LLMProvider;
+    private readonly fallbacks: Array<() => Promise<LLMProvider | undefined>>;
+
+    // Fallbacks are created lazily, so a provider that is never needed never asks for credentials.
+    constructor(primary: LLMProvider, fallbacks: Array<() => Promise<LLMProvider | undefined>>) {
+        this.current = primary;
+        this.fallbacks = [...fallbacks];
+    }
+
+    async advance(): Promise<boolean> {
+        while (this.fallbacks.length) {
+            const next = await this.fallbacks.shift()!();
+            if (next) {
+                log(`Falling back from ${this.current.getName()} (${this.current.getModel()}) to ${next.getName()} (${next.getModel()})`, "INFO");
+                this.current = next;
+                return true;
+            }
+        }
+        return false;
+    }
+
+    getName(): string {
+        return this.current.getName();
+    }
+
+    getModel(): string {
+        return this.current.getModel();
+    }
+
+    getResponse(prompt: string, history: ChatMessage[], options?: RequestOptions): Promise<string> {
+        return this.current.getResponse(prompt, history, options);
+    }
+
+    streamResponse(prompt: string, history: ChatMessage[], onToken: (token: string) => void, options?: RequestOptions): Promise<string> {
+        return this.current.streamResponse(prompt, history, onToken, options);
+    }
+
+    supportsJsonMode(): boolean {
+        return this.current.supportsJsonMode();
+    }
+
+    getContextWindow(): number {
+        return this.current.getContextWindow();
+    }
+
+    estimateTokens(text: string): number {
+        return this.current.estimateTokens(text);
+    }
+
+    testConnection(): Promise<boolean> {
+        return this.current.testConnection();
+    }
+}
+
+// Each attempt waits for the scheduler. Errors that cannot succeed on a retry fail at once; for
+// throttling, the server's Retry-After replaces the backoff and holds the provider's queue too.
+// JSON responses are returned unsanitized by default: escaping would corrupt code inside string
+// values, and they are rendered through sanitized webview HTML after parsing anyway.
+const requestWithRetries = async (
+    config: Config,
+    provider: LLMProvider,
+    request: (options: RequestOptions) => Promise<string>,
+    options: ResponseOptions & { canRetry?: () => boolean; tokens?: number } = {}
+): Promise<string> => {
+    const { canRetry = () => true, signal, responseFormat = "text", sanitize = responseFormat !== "json", priority, tokens } = options;
+    for (let attempt = 0; attempt < config.apiMaxRetries; attempt++) {
+        if (signal?.aborted) {
+            throw new CancellationError();
+        }
+        try {
+            let usage: TokenUsage | undefined;
+            const response = await scheduler.run(provider.getName(), rateLimitsFor(config, provider.getName()), { priority, tokens, signal }, () => {
+                log(`Sending ${provider.getName()} request (Attempt ${attempt + 1})`, "DEBUG");
+                return request({ ...options, onUsage: (reported) => { usage = reported; } });
+            });
+            if (signal?.aborted) {
+                throw new CancellationError();
+            }
+            recordUsage({
+                at: Date.now(),
+                provider: provider.getName(),
+                model: provider.getModel(),
+                command: options.command,
+                file: options.file,
+                ...(usage ?? { inputTokens: tokens ?? 0, outputTokens: provider.estimateTokens(response) }),
+                estimated: !usage,
+            });
+            const sanitized = sanitize
+                ? sanitizeHtml(response, { allowedTags: ["pre", "code", "b", "i"], allowedAttributes: {} })
+                : response;
+            log(`Response received: ${sanitized.slice(0, 100)}...`, "DEBUG");
+            return sanitized || "No response received from LLM";
+        } catch (error) {
+            if (signal?.aborted || isCancellation(error)) {
+                log(`${provider.getName()} request cancelled`, "INFO");
+                throw new CancellationError();
+            }
+            const message = `Failed to fetch ${provider.getName()} response: ${error instanceof Error ? error.message : "Unknown error"}`;
+            log(message, "ERROR");
+            const retryAfter = error instanceof ProviderRequestError ? error.retryAfterMs : undefined;
+            if (!isRetryable(error) || (retryAfter ?? 0) > MAX_RETRY_AFTER_MS) {
+                throw new Error(`${message} (not retried)`);
+            }
+            if (attempt < config.apiMaxRetries - 1 && canRetry()) {
+                if (retryAfter !== undefined) {
+                    scheduler.pause(provider.getName(), retryAfter);
+                }
+                const delay = retryAfter ?? config.apiRetryDelay * Math.pow(2, attempt);
+                log(`Retrying in ${delay}ms...`, "INFO");
+                await sleep(delay, signal);
+            } else {
+                throw new Error(`${message} (All ${config.apiMaxRetries} retries failed)`);
+            }
+        }
+    }
+    log("Unexpected error in getLLMResponse", "ERROR");
+    throw new Error("Unexpected error in getLLMResponse");
+};
+
+// Runs a request, moving a ProviderChain on to its next fallback whenever the current provider
+// exhausts its retries. The error is only reported once there is nothing left to fall back to.
+const withFallbacks = async (provider: LLMProvider, request: () => Promise<string>, canFallBack: () => boolean = () => true): Promise<string> => {
+    for (;;) {
+        try {
+            return await request();
+        } catch (error) {
+            if (isCancellation(error)) {
+                throw error;
+            }
+            if (!(provider instanceof ProviderChain) || !canFallBack() || !(await provider.advance())) {
+                notifyError(error instanceof Error ? error.message : "Unknown error", "request");
+                throw error;
+            }
+        }
+    }
+};
+
+const promptTokens = (provider: LLMProvider, prompt: string, history: ChatMessage[]): number =>
+    provider.estimateTokens(prompt) + history.reduce((total, message) => total + provider.estimateTokens(message.content), 0);
+
+// Identical requests to the same model share one in-flight response.
+const requestKey = (provider: LLMProvider, prompt: string, history: ChatMessage[], options: ResponseOptions): string =>
+    createHash("sha256")
+        .update(JSON.stringify([
+            provider.getName(),
+            provider.getModel(),
+            prompt,
+            history.map((message) => [message.role, message.content]),
+            options.responseFormat ?? "text",
+            options.sanitize,
+            options.sessionId,
+        ]))
+        .digest("hex");
+
+export const getLLMResponse = async (
+    prompt: string,
+    config: Config,
+    chatHistory: ChatMessage[] = [],
+    provider: LLMProvider,
+    options: ResponseOptions = {}
+): Promise<string> =>
+    scheduler.dedupe(requestKey(provider, prompt, chatHistory, options), options.signal, (signal) => {
+        const shared = { ...options, signal, tokens: promptTokens(provider, prompt, chatHistory) };
+        return withFallbacks(provider, () => requestWithRetries(config, provider, (attempt) => provider.getResponse(prompt, chatHistory, attempt), shared));
+    });
+
+// Streams tokens to onToken as they arrive. A request is only retried, or handed to a fallback,
+// while nothing has been streamed yet, so callers never see the same output twice. Streams are
+// never shared between callers.
+export const getLLMStreamResponse = async (
+    prompt: string,
+    config: Config,
+    chatHistory: ChatMessage[] = [],
+    provider: LLMProvider,
+    onToken: (token: string) => void,
+    options: ResponseOptions = {}
+): Promise<string> => {
+    if (!config.streamResponses) {
+        const response = await getLLMResponse(prompt, config, chatHistory, provider, options);
+        onToken(response);
+        return response;
+    }
+    let streamed = false;
+    return withFallbacks(
+        provider,
+        () => requestWithRetries(
+            config,
+            provider,
+            (attempt) => provider.streamResponse(prompt, chatHistory, (token) => {
+                streamed = true;
+                onToken(token);
+            }, attempt),
+            { ...options, tokens: promptTokens(provider, prompt, chatHistory), canRetry: () => !streamed }
+        ),
+        () => !streamed
+    );
+};
@@ -0,0 +1,189 @@
+import { createHash } from "crypto";
+import { Issue, Severity } from "./types";
+
+export type ReportFormat = "html" | "markdown" | "json";
+
+const REPORT_EXTENSIONS: Record<ReportFormat, string> = { html: "html", markdown: "md", json: "json" };
+
+export interface ReportFile {
+    path: string;
+    review: string;
+    issues: Issue[];
+    // Undefined for reviews served from the cache or carried forward from an earlier run.
+    durationMs?: number;
+    cached?: boolean;
+    relatedFiles?: string[];
+}
+
+export interface ReportFailure {
+    path: string;
+    error: string;
+}
+
+export interface ReviewReport {
+    title: string;
+    generatedAt: Date;
+    durationMs: number;
+    provider: string;
+    model: string;
+    reviewMode: "structured" | "markdown";
+    // The review prompt template; its hash tells whether two runs are comparable.
+    prompt: string;
+    // Free text shown under the header, e.g. what an incremental review carried forward.
+    note?: string;
+    files: ReportFile[];
+    failures: ReportFailure[];
+}
+
+export interface ReportSummary {
+    files: number;
+    failures: number;
+    issues: number;
+    bySeverity: Record<Severity, number>;
+    byCategory: Record<string, number>;
+}
+
+const SEVERITY_ORDER = [Severity.High, Severity.Medium, Severity.Low];
+
+export const summarizeReport = (report: ReviewReport): ReportSummary => {
+    const issues = report.files.flatMap((file) => file.issues);
+    const bySeverity = Object.fromEntries(SEVERITY_ORDER.map((severity) => [severity, 0])) as Record<Severity, number>;
+    const byCategory: Record<string, number> = {};
+    for (const issue of issues) {
+        bySeverity[issue.severity]++;
+        const category = issue.category ?? "other";
+        byCategory[category] = (byCategory[category] ?? 0) + 1;
+    }
+    return { files: report.files.length, failures: report.failures.length, issues: issues.length, bySeverity, byCategory };
+};
+
+const promptHash = (prompt: string): string => createHash("sha256").update(prompt).digest("hex").slice(0, 12);
+
+const formatDuration = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+const countLabel = (issues: Issue[]): string => {
+    const counts = SEVERITY_ORDER
+        .map((severity) => [severity, issues.filter((issue) => issue.severity === severity).length] as const)
+        .filter(([, count]) => count)
+        .map(([severity, count]) => `${count} ${severity}`);
+    return `${issues.length} issue${issues.length === 1 ? "" : "s"}${counts.length ? ` (${counts.join(", ")})` : ""}`;
+};
+
+const fileDetails = (file: ReportFile): string =>
+    [
+        countLabel(file.issues),
+        ...(file.durationMs !== undefined ? [formatDuration(file.durationMs)] : []),
+        ...(file.cached ? ["cached"] : []),
+    ].join(" · ");
+
+const headerLine = (report: ReviewReport): string =>
+    `Generated ${report.generatedAt.toISOString()} in ${formatDuration(report.durationMs)} with ${report.provider} (${report.model}), ${report.reviewMode} review, prompt ${promptHash(report.prompt)}.`;
+
+// Anchors are numbered rather than derived from paths, which may contain anything.
+const anchor = (index: number): string => `file-${index + 1}`;
+
+const renderMarkdown = (report: ReviewReport, summary: ReportSummary): string => {
+    const sections = [
+        `# ${report.title}`,
+        [headerLine(report), report.note].filter(Boolean).join("\n\n"),
+        "## Summary",
+        `${summary.files} files reviewed, ${summary.failures} failed, ${summary.issues} issues.`,
+        ["| Severity | Issues |", "| --- | --- |", ...SEVERITY_ORDER.map((severity) => `| ${severity} | ${summary.bySeverity[severity]} |`)].join("\n"),
+        ["| Category | Issues |", "| --- | --- |", ...Object.entries(summary.byCategory).sort().map(([category, count]) => `| ${category} | ${count} |`)].join("\n"),
+        "## Contents",
+        report.files.map((file, i) => `- [${file.path}](#${anchor(i)}): ${fileDetails(file)}`).join("\n") || "No files reviewed.",
+    ];
+    if (report.failures.length) {
+        sections.push("## Failures", report.failures.map((failure) => `- \`${failure.path}\`: ${failure.error}`).join("\n"));
+    }
+    sections.push("## Files");
+    report.files.forEach((file, i) => {
+        sections.push(
+            `<a id="${anchor(i)}"></a>\n### ${file.path}`,
+            `_${fileDetails(file)}_`,
+            file.review.trim(),
+            ...(file.relatedFiles?.length ? [`Related files: ${file.relatedFiles.join(", ")}`] : [])
+        );
+    });
+    // Four backticks, since review prompts quote code fences themselves.
+    sections.push("## Prompt", `<details><summary>Review prompt template</summary>\n\n\`\`\`\`text\n${report.prompt}\n\`\`\`\`\n\n</details>`);
+    return `${sections.join("\n\n")}\n`;
+};
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const HTML_STYLE = `
+    body { font-family: -apple-system, "Segoe UI", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+    table { border-collapse: collapse; margin: 0.5rem 0 1rem; }
+    th, td { border: 1px solid #d0d7de; padding: 0.25rem 0.75rem; text-align: left; vertical-align: top; }
+    pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; white-space: pre-wrap; }
+    .meta { color: #59636e; }
+    .High { color: #cf222e; } .Medium { color: #9a6700; } .Low { color: #0969da; }`;
+
+const htmlTable = (headers: string[], rows: Array<Array<string | number>>): string =>
+    `<table><tr>${headers.map((header) => `<th>${header}</th>`).join("")}</tr>${rows
+        .map((row) => `<tr>${row.map((cell) => `<td>${cell}</td>`).join("")}</tr>`)
+        .join("")}</table>`;
+
+const renderHtml = (report: ReviewReport, summary: ReportSummary): string => {
+    const files = report.files.map((file, i) => `
+  <section id="${anchor(i)}">
+    <h3>${escapeHtml(file.path)}</h3>
+    <p class="meta">${escapeHtml(fileDetails(file))}</p>
+    ${file.issues.length
+            ? htmlTable(["Line", "Severity", "Category", "Message"], file.issues.map((issue) => [
+                issue.endLine && issue.endLine !== issue.line ? `${issue.line}-${issue.endLine}` : issue.line,
+                `<span class="${issue.severity}">${issue.severity}</span>`,
+                escapeHtml(issue.category ?? "other"),
+                escapeHtml(issue.message),
+            ]))
+            : ""}
+    <pre>${escapeHtml(file.review.trim())}</pre>
+    ${file.relatedFiles?.length ? `<p class="meta">Related files: ${escapeHtml(file.relatedFiles.join(", "))}</p>` : ""}
+  </section>`).join("");
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(report.title)}</title>
+  <style>${HTML_STYLE}
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(report.title)}</h1>
+  <p class="meta">${escapeHtml(headerLine(report))}</p>
+  ${report.note ? `<p>${escapeHtml(report.note)}</p>` : ""}
+  <h2>Summary</h2>
+  <p>${summary.files} files reviewed, ${summary.failures} failed, ${summary.issues} issues.</p>
+  ${htmlTable(["Severity", "Issues"], SEVERITY_ORDER.map((severity) => [`<span class="${severity}">${severity}</span>`, summary.bySeverity[severity]]))}
+  ${htmlTable(["Category", "Issues"], Object.entries(summary.byCategory).sort().map(([category, count]) => [escapeHtml(category), count]))}
+  <h2>Contents</h2>
+  <ul>${report.files.map((file, i) => `<li><a href="#${anchor(i)}">${escapeHtml(file.path)}</a> <span class="meta">${escapeHtml(fileDetails(file))}</span></li>`).join("")}</ul>
+  ${report.failures.length
+            ? `<h2>Failures</h2>${htmlTable(["File", "Error"], report.failures.map((failure) => [escapeHtml(failure.path), escapeHtml(failure.error)]))}`
+            : ""}
+  <h2>Files</h2>${files}
+  <h2>Prompt</h2>
+  <details><summary>Review prompt template</summary><pre>${escapeHtml(report.prompt)}</pre></details>
+</body>
+</html>
+`;
+};
+
+export const renderReport = (report: ReviewReport, format: ReportFormat): string => {
+    const summary = summarizeReport(report);
+    if (format === "json") {
+        return JSON.stringify({
+            ...report,
+            generatedAt: report.generatedAt.toISOString(),
+            promptHash: promptHash(report.prompt),
+            summary,
+        }, null, 2);
+    }
+    return format === "html" ? renderHtml(report, summary) : renderMarkdown(report, summary);
+};
+
+// Timestamped so successive runs sit side by side in the report folder.
+export const reportFileName = (report: ReviewReport, format: ReportFormat): string =>
+    `project-review-${report.generatedAt.toISOString().replace(/[:.]/g, "-")}.${REPORT_EXTENSIONS[format]}`;
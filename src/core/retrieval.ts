@@ -0,0 +1,223 @@
+import axios from "axios";
+import { CancellationError, log } from "./host";
+import { splitLines } from "./patch";
+import { ollamaEndpoint } from "./providers";
+import { Config, ContextPart } from "./types";
+
+const INDEX_CHUNK_LINES = 40;
+const INDEX_CHUNK_OVERLAP = 10;
+const EMBEDDING_BATCH_SIZE = 32;
+const MAX_EMBEDDING_INPUT = 8000;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export interface IndexChunk {
+    path: string;
+    startLine: number;
+    endLine: number;
+    text: string;
+    terms: Map<string, number>;
+    length: number;
+    embedding?: Float32Array;
+}
+
+// Identifiers are indexed whole and by their camelCase and snake_case parts, so "getUserName"
+// also matches a query for "user name".
+const tokenizeForIndex = (text: string): string[] => {
+    const terms: string[] = [];
+    for (const word of text.match(/[A-Za-z_$][\w$]*|\d+/g) ?? []) {
+        if (word.length > 1) {
+            terms.push(word.toLowerCase());
+        }
+        const parts = word.split(/_+|(?<=[a-z\d])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter((part) => part.length > 1);
+        if (parts.length > 1) {
+            terms.push(...parts.map((part) => part.toLowerCase()));
+        }
+    }
+    return terms;
+};
+
+// Overlapping windows of lines, so code spanning a chunk boundary is still retrievable whole.
+const chunkContent = (path: string, content: string): IndexChunk[] => {
+    const lines = splitLines(content);
+    const chunks: IndexChunk[] = [];
+    for (let start = 0; start < lines.length; start += INDEX_CHUNK_LINES - INDEX_CHUNK_OVERLAP) {
+        const text = lines.slice(start, start + INDEX_CHUNK_LINES).join("\n");
+        if (text.trim()) {
+            const tokens = tokenizeForIndex(text);
+            const terms = new Map<string, number>();
+            tokens.forEach((term) => terms.set(term, (terms.get(term) ?? 0) + 1));
+            chunks.push({ path, startLine: start + 1, endLine: Math.min(start + INDEX_CHUNK_LINES, lines.length), text, terms, length: tokens.length });
+        }
+        if (start + INDEX_CHUNK_LINES >= lines.length) {
+            break;
+        }
+    }
+    return chunks;
+};
+
+const cosineSimilarity = (a: Float32Array, b: Float32Array): number => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Chunked index of the workspace for retrieval-augmented prompts. Chunks are ranked by cosine
+// similarity of Ollama embeddings while the embedding model is reachable, and by BM25 otherwise.
+export class SemanticIndex {
+    private readonly chunks: Map<string, IndexChunk[]> = new Map();
+    private readonly documentFrequency: Map<string, number> = new Map();
+    private chunkCount = 0;
+    private totalLength = 0;
+    private embeddingsAvailable: boolean | undefined;
+    private readonly config: Config;
+
+    constructor(config: Config) {
+        this.config = config;
+    }
+
+    get size(): number {
+        return this.chunkCount;
+    }
+
+    async update(path: string, content: string): Promise<void> {
+        const chunks = chunkContent(path, content);
+        if (this.config.embeddingModel && this.embeddingsAvailable !== false) {
+            await this.embedChunks(chunks);
+        }
+        this.remove(path);
+        this.chunks.set(path, chunks);
+        for (const chunk of chunks) {
+            this.chunkCount++;
+            this.totalLength += chunk.length;
+            chunk.terms.forEach((_, term) => this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1));
+        }
+    }
+
+    remove(path: string): void {
+        for (const chunk of this.chunks.get(path) ?? []) {
+            this.chunkCount--;
+            this.totalLength -= chunk.length;
+            chunk.terms.forEach((_, term) => {
+                const count = (this.documentFrequency.get(term) ?? 1) - 1;
+                if (count > 0) {
+                    this.documentFrequency.set(term, count);
+                } else {
+                    this.documentFrequency.delete(term);
+                }
+            });
+        }
+        this.chunks.delete(path);
+    }
+
+    clear(): void {
+        this.chunks.clear();
+        this.documentFrequency.clear();
+        this.chunkCount = 0;
+        this.totalLength = 0;
+    }
+
+    async search(query: string, topK: number, options: { exclude?: string; signal?: AbortSignal } = {}): Promise<IndexChunk[]> {
+        const candidates = Array.from(this.chunks.entries())
+            .filter(([path]) => path !== options.exclude)
+            .flatMap(([, chunks]) => chunks);
+        if (topK <= 0 || !candidates.length) {
+            return [];
+        }
+        const queryEmbedding = candidates.every((chunk) => chunk.embedding)
+            ? await this.embedQuery(query, options.signal)
+            : undefined;
+        const scored = queryEmbedding
+            ? candidates.map((chunk) => ({ chunk, score: cosineSimilarity(queryEmbedding, chunk.embedding!) }))
+            : this.scoreBm25(query, candidates);
+        return scored
+            .filter(({ score }) => score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK)
+            .map(({ chunk }) => chunk);
+    }
+
+    private scoreBm25(query: string, candidates: IndexChunk[]): Array<{ chunk: IndexChunk; score: number }> {
+        const terms = Array.from(new Set(tokenizeForIndex(query)));
+        const averageLength = this.totalLength / Math.max(this.chunkCount, 1);
+        return candidates.map((chunk) => {
+            let score = 0;
+            for (const term of terms) {
+                const frequency = chunk.terms.get(term);
+                if (!frequency) {
+                    continue;
+                }
+                const documents = this.documentFrequency.get(term) ?? 0;
+                const idf = Math.log(1 + (this.chunkCount - documents + 0.5) / (documents + 0.5));
+                score += idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / averageLength));
+            }
+            return { chunk, score };
+        });
+    }
+
+    private async embedChunks(chunks: IndexChunk[]): Promise<void> {
+        try {
+            for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+                const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+                const embeddings = await this.embed(batch.map((chunk) => chunk.text));
+                batch.forEach((chunk, j) => (chunk.embedding = embeddings[j]));
+            }
+            this.embeddingsAvailable = true;
+        } catch (error) {
+            // Sticky for the session: one unreachable model should not slow down every later update.
+            this.embeddingsAvailable = false;
+            log(`Ollama embeddings unavailable, using BM25 retrieval: ${error instanceof Error ? error.message : "Unknown error"}`, "INFO");
+        }
+    }
+
+    private async embedQuery(query: string, signal?: AbortSignal): Promise<Float32Array | undefined> {
+        try {
+            return (await this.embed([query], signal))[0];
+        } catch (error) {
+            if (signal?.aborted || axios.isCancel(error)) {
+                throw new CancellationError();
+            }
+            log(`Query embedding failed, using BM25 retrieval: ${error instanceof Error ? error.message : "Unknown error"}`, "ERROR");
+            return undefined;
+        }
+    }
+
+    private async embed(texts: string[], signal?: AbortSignal): Promise<Float32Array[]> {
+        const response = await axios.post(ollamaEndpoint(this.config, "/api/embed"), {
+            model: this.config.embeddingModel,
+            input: texts.map((text) => text.slice(0, MAX_EMBEDDING_INPUT)),
+        }, {
+            headers: { "Content-Type": "application/json" },
+            timeout: this.config.apiTimeout,
+            signal,
+        });
+        const embeddings: number[][] | undefined = response.data?.embeddings;
+        if (!Array.isArray(embeddings) || embeddings.length !== texts.length) {
+            throw new Error("Unexpected response from the Ollama embeddings endpoint");
+        }
+        return embeddings.map((embedding) => Float32Array.from(embedding));
+    }
+}
+
+export const retrieveContext = async (
+    index: SemanticIndex | undefined,
+    query: string,
+    config: Config,
+    options: { exclude?: string; signal?: AbortSignal } = {}
+): Promise<ContextPart[]> => {
+    if (!index || config.retrievalTopK <= 0) {
+        return [];
+    }
+    const chunks = await index.search(query, config.retrievalTopK, options);
+    return chunks.map((chunk) => ({
+        kind: "retrieved",
+        label: `workspace: ${chunk.path}, lines ${chunk.startLine}-${chunk.endLine}`,
+        content: chunk.text,
+    }));
+};
@@ -0,0 +1,317 @@
+import { createHash } from "crypto";
+import { describeTrimmedContext, fitContextBudget, renderContextParts } from "./context";
+import { log } from "./host";
+import { PATCH_FORMAT_INSTRUCTIONS, formatHunks, parsePatchSuggestions, splitLines } from "./patch";
+import { getLLMResponse, getLLMStreamResponse } from "./providers";
+import { ChatMessage, Config, ContextPart, Issue, LLMProvider, PatchHunk, RequestOptions, ResponseOptions, ReviewRequestOptions, Severity, StructuredReview } from "./types";
+
+const REVIEW_SEVERITIES = Object.values(Severity);
+const SEVERITY_RANK: Record<Severity, number> = { [Severity.Low]: 1, [Severity.Medium]: 2, [Severity.High]: 3 };
+const SEVERITY_ALIASES: Record<string, Severity> = {
+    high: Severity.High,
+    critical: Severity.High,
+    blocker: Severity.High,
+    error: Severity.High,
+    medium: Severity.Medium,
+    moderate: Severity.Medium,
+    warning: Severity.Medium,
+    low: Severity.Low,
+    minor: Severity.Low,
+    info: Severity.Low,
+    note: Severity.Low,
+};
+const REVIEW_CATEGORIES = ["bug", "security", "performance", "maintainability", "style", "other"];
+const STRUCTURED_REVIEW_REPAIR_ATTEMPTS = 1;
+export const REVIEW_JSON_INSTRUCTIONS = `Respond with a single JSON object and nothing else, matching this schema:
+{
+  "summary": string,
+  "issues": [
+    {
+      "startLine": integer (1-based line number from the listing above),
+      "endLine": integer (>= startLine),
+      "severity": "high" | "medium" | "low",
+      "category": ${REVIEW_CATEGORIES.map((c) => `"${c}"`).join(" | ")},
+      "message": string,
+      "fix": string (optional replacement code for lines startLine..endLine, without line numbers)
+    }
+  ]
+}
+Return an empty "issues" array if the code has no problems.`;
+
+const numberLines = (content: string): string =>
+    content.split("\n").map((line, index) => `${index + 1}| ${line}`).join("\n");
+
+// Tolerates the usual model noise around JSON: code fences, leading prose and trailing commas.
+export const extractJson = (text: string): { value?: unknown; error?: string } => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = (fenced ? fenced[1] : text).trim();
+    const start = candidate.indexOf("{");
+    const end = candidate.lastIndexOf("}");
+    if (start < 0 || end <= start) {
+        return { error: "Response does not contain a JSON object" };
+    }
+    const json = candidate.slice(start, end + 1);
+    let lastError = "";
+    for (const attempt of [json, json.replace(/,\s*([}\]])/g, "$1")]) {
+        try {
+            return { value: JSON.parse(attempt) };
+        } catch (error) {
+            lastError = error instanceof Error ? error.message : String(error);
+        }
+    }
+    return { error: `Invalid JSON: ${lastError}` };
+};
+
+// Accepts the labels models actually produce, such as "HIGH", "High severity" or "critical".
+export const normalizeSeverity = (value: unknown): Severity | undefined =>
+    SEVERITY_ALIASES[String(value ?? "").toLowerCase().replace(/severity/, "").trim()];
+
+export const meetsSeverity = (severity: Severity, threshold: Severity): boolean =>
+    SEVERITY_RANK[severity] >= SEVERITY_RANK[threshold];
+
+export const validateStructuredReview = (value: unknown): { review?: StructuredReview; errors: string[] } => {
+    const errors: string[] = [];
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return { errors: ["Top-level value must be an object"] };
+    }
+    const data = value as Record<string, unknown>;
+    if (data.summary !== undefined && typeof data.summary !== "string") {
+        errors.push("\"summary\" must be a string");
+    }
+    if (!Array.isArray(data.issues)) {
+        errors.push("\"issues\" must be an array");
+        return { errors };
+    }
+
+    const issues: Issue[] = [];
+    data.issues.forEach((raw, index) => {
+        const path = `issues[${index}]`;
+        if (!raw || typeof raw !== "object") {
+            errors.push(`${path} must be an object`);
+            return;
+        }
+        const item = raw as Record<string, unknown>;
+        const startLine = item.startLine ?? item.line;
+        const endLine = item.endLine ?? startLine;
+        if (!Number.isInteger(startLine) || (startLine as number) < 1) {
+            errors.push(`${path}.startLine must be a positive integer`);
+        }
+        if (!Number.isInteger(endLine) || (endLine as number) < (startLine as number)) {
+            errors.push(`${path}.endLine must be an integer >= startLine`);
+        }
+        const severity = normalizeSeverity(item.severity);
+        if (!severity) {
+            errors.push(`${path}.severity must be one of ${REVIEW_SEVERITIES.join(", ").toLowerCase()}`);
+        }
+        if (typeof item.message !== "string" || !item.message.trim()) {
+            errors.push(`${path}.message must be a non-empty string`);
+        }
+        if (item.category !== undefined && typeof item.category !== "string") {
+            errors.push(`${path}.category must be a string`);
+        }
+        if (item.fix !== undefined && item.fix !== null && typeof item.fix !== "string") {
+            errors.push(`${path}.fix must be a string`);
+        }
+        if (!errors.some((e) => e.startsWith(path))) {
+            const category = String(item.category ?? "other").toLowerCase();
+            issues.push({
+                line: startLine as number,
+                endLine: endLine as number,
+                severity: severity!,
+                category: REVIEW_CATEGORIES.includes(category) ? category : "other",
+                message: (item.message as string).trim(),
+                fix: typeof item.fix === "string" && item.fix.trim() ? item.fix : undefined,
+            });
+        }
+    });
+
+    return errors.length ? { errors } : { review: { summary: (data.summary as string | undefined) ?? "", issues }, errors };
+};
+
+// Asks for JSON, then re-asks with the validation errors when the model gets the shape wrong.
+// Returns the raw text without a parsed review when the response never validates.
+export const requestStructuredReview = async (
+    prompt: string,
+    config: Config,
+    provider: LLMProvider,
+    options: ReviewRequestOptions
+): Promise<{ review?: StructuredReview; raw: string }> => {
+    const requestOptions: RequestOptions = { signal: options.signal, responseFormat: "json", priority: options.priority, command: options.command, file: options.file };
+    let raw = options.onToken
+        ? await getLLMStreamResponse(prompt, config, [], provider, options.onToken, requestOptions)
+        : await getLLMResponse(prompt, config, [], provider, requestOptions);
+
+    for (let attempt = 0; ; attempt++) {
+        const parsed = extractJson(raw);
+        const { review, errors } = parsed.error ? { review: undefined, errors: [parsed.error] } : validateStructuredReview(parsed.value);
+        if (review) {
+            return { review, raw };
+        }
+        log(`Structured review failed validation: ${errors.join("; ")}`, "ERROR");
+        if (attempt >= STRUCTURED_REVIEW_REPAIR_ATTEMPTS) {
+            return { raw };
+        }
+        const history: ChatMessage[] = [
+            { role: "user", content: prompt, timestamp: Date.now() },
+            { role: "assistant", content: raw, timestamp: Date.now() },
+        ];
+        const repairPrompt = `Your previous response did not match the required JSON schema:\n${errors.map((e) => `- ${e}`).join("\n")}\nReply with the corrected JSON object only.`;
+        raw = await getLLMResponse(repairPrompt, config, history, provider, requestOptions);
+    }
+};
+
+export const formatStructuredReview = (review: StructuredReview): string => {
+    const issues = review.issues.map((issue) => {
+        const lines = issue.endLine && issue.endLine !== issue.line ? `Lines ${issue.line}-${issue.endLine}` : `Line ${issue.line}`;
+        const fix = issue.fix ? `\n  Suggested fix:\n\`\`\`\n${issue.fix}\n\`\`\`` : "";
+        return `- ${lines} [${issue.severity}] (${issue.category}): ${issue.message}${fix}`;
+    });
+    return `**Summary**: ${review.summary || "No summary provided."}\n\n**Issues**:\n${issues.length ? issues.join("\n") : "No issues found."}`;
+};
+
+// Fallback for Flowise chatflows and other free-form markdown reviews.
+export const parseMarkdownIssues = (review: string): Issue[] => {
+    const issues: Issue[] = [];
+    for (const match of review.matchAll(/Line (\d+): (\w+) severity - ([^\n]+)/g)) {
+        issues.push({ line: parseInt(match[1]), severity: normalizeSeverity(match[2]) ?? Severity.Low, message: match[3] });
+    }
+    if (issues.length) {
+        return issues;
+    }
+    const bulletRegex = /^\s*[-*]\s*\**Lines?\s+(\d+)(?:\s*[-–]\s*(\d+))?\**\s*[:\-–]?\s*[([]?\**(High|Medium|Low)\**[)\]]?(?:\s*severity)?\s*[:\-–]?\s*(.+)$/gim;
+    for (const match of review.matchAll(bulletRegex)) {
+        issues.push({
+            line: parseInt(match[1]),
+            endLine: match[2] ? parseInt(match[2]) : undefined,
+            severity: normalizeSeverity(match[3])!,
+            message: match[4].trim(),
+        });
+    }
+    return issues;
+};
+
+export const isStructuredReview = (config: Config, provider: LLMProvider): boolean =>
+    config.reviewOutputFormat === "json" || (config.reviewOutputFormat === "auto" && provider.supportsJsonMode());
+
+// The whole-file review prompt, with {filename} and {content} placeholders.
+export const reviewTemplate = (config: Config, provider: LLMProvider): string =>
+    isStructuredReview(config, provider)
+        ? `${config.structuredReviewPrompt}\n\n${REVIEW_JSON_INSTRUCTIONS}`
+        : `${config.reviewPrompt}\n\n${PATCH_FORMAT_INSTRUCTIONS}`;
+
+export const hashText = (text: string): string => createHash("sha256").update(text).digest("hex");
+
+// Keys a finished review by everything that shapes the response: the content's hash, the
+// effective prompt, the provider and the model.
+export const reviewCacheKey = (contentHash: string, prompt: string, provider: LLMProvider): string =>
+    hashText(JSON.stringify([contentHash, prompt, provider.getName(), provider.getModel()]));
+
+// What a review checkpoint remembers about a file.
+export interface FileState {
+    mtime: number;
+    size: number;
+    hash: string;
+    cacheKey?: string;
+}
+
+// Compares a file with its checkpoint entry. Files with an unchanged mtime and size are not
+// re-hashed, and a touched file whose content hash still matches counts as unchanged. The earlier
+// review's key is only returned while the provider, model and prompt are the ones it was made with.
+export const compareWithCheckpoint = async (
+    previous: FileState | undefined,
+    stat: { mtime: number; size: number },
+    hashContent: () => Promise<string>,
+    prompt: string,
+    provider: LLMProvider
+): Promise<{ state: FileState; carriedKey?: string }> => {
+    const state = previous && previous.mtime === stat.mtime && previous.size === stat.size
+        ? previous
+        : { mtime: stat.mtime, size: stat.size, hash: await hashContent() };
+    const key = reviewCacheKey(state.hash, prompt, provider);
+    return { state, carriedKey: previous?.cacheKey === key ? key : undefined };
+};
+
+export interface ContentReview {
+    review: string;
+    issues: Issue[];
+    suggestedChanges?: string;
+    hunks: PatchHunk[];
+    replacementContent?: string;
+    relatedFiles: string[];
+}
+
+// Reviews one file's content. Supporting context (related files, retrieved chunks) goes after the
+// file and is trimmed before it when the prompt does not fit the context window.
+export const reviewContent = async (
+    filename: string,
+    content: string,
+    config: Config,
+    provider: LLMProvider,
+    options: ReviewRequestOptions = {},
+    context: ContextPart[] = []
+): Promise<ContentReview> => {
+    const structured = isStructuredReview(config, provider);
+    const template = reviewTemplate(config, provider);
+    let review: string;
+    let issues: Issue[];
+    let patches: { hunks: PatchHunk[]; replacementContent?: string };
+    const fitted = fitContextBudget(
+        provider,
+        template.replace("{filename}", filename).replace("{content}", ""),
+        [{ kind: "file", label: `file: ${filename}`, content: structured ? numberLines(content) : content }, ...context]
+    );
+    const promptContent = fitted.parts.find((part) => part.kind === "file")?.content ?? "";
+    const supportingContext = fitted.parts.filter((part) => part.kind !== "file");
+    const relatedFiles = supportingContext
+        .filter((part) => part.kind === "related")
+        .map((part) => part.label.replace(/^related file: /, ""));
+    const buildPrompt = () => {
+        const prompt = template.replace("{filename}", filename).replace("{content}", promptContent);
+        return supportingContext.length
+            ? `${prompt}\n\nImported files and related code from the workspace, for context only. Review only ${filename}:\n${renderContextParts(supportingContext)}`
+            : prompt;
+    };
+
+    if (structured) {
+        const prompt = buildPrompt();
+        const result = await requestStructuredReview(prompt, config, provider, { ...options, file: filename });
+        if (result.review) {
+            review = formatStructuredReview(result.review);
+            issues = result.review.issues;
+            const lines = splitLines(content);
+            patches = {
+                hunks: issues
+                    .filter((issue) => issue.fix !== undefined)
+                    .flatMap((issue) => {
+                        // An empty search block is applied as an insertion, so a fix for lines past
+                        // the end of the file or for blank lines is dropped rather than inserted.
+                        const search = lines.slice(issue.line - 1, issue.endLine ?? issue.line).join("\n");
+                        if ((issue.endLine ?? issue.line) > lines.length || !search.trim()) {
+                            log(`Dropped the fix for line ${issue.line} of ${filename}: no code to replace there`, "INFO");
+                            return [];
+                        }
+                        return [{ search, replace: issue.fix!, startLine: issue.line, description: issue.message }];
+                    }),
+            };
+        } else {
+            log(`Falling back to markdown parsing for ${filename}`, "INFO");
+            review = result.raw;
+            issues = parseMarkdownIssues(result.raw);
+            patches = parsePatchSuggestions(result.raw, content);
+        }
+    } else {
+        // Left unsanitized so suggested code survives intact; the webviews sanitize on render.
+        const prompt = buildPrompt();
+        const requestOptions: ResponseOptions = { signal: options.signal, sanitize: false, priority: options.priority, command: options.command, file: filename };
+        review = options.onToken
+            ? await getLLMStreamResponse(prompt, config, [], provider, options.onToken, requestOptions)
+            : await getLLMResponse(prompt, config, [], provider, requestOptions);
+        issues = parseMarkdownIssues(review);
+        patches = parsePatchSuggestions(review, content);
+    }
+    const suggestedChanges = patches.hunks.length ? formatHunks(patches.hunks) : patches.replacementContent;
+    if (fitted.dropped.length) {
+        review = `> ${describeTrimmedContext(fitted)}\n\n${review}`;
+    }
+    return { review, issues, suggestedChanges, hunks: patches.hunks, replacementContent: patches.replacementContent, relatedFiles };
+};
@@ -0,0 +1,120 @@
+import { pathToFileURL } from "url";
+import { locateHunkRange } from "./patch";
+import { Issue, PatchHunk, Severity } from "./types";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const TOOL_NAME = "LLMCoderAgent";
+const TOOL_URI = "https://github.com/ashnikh78/llmcoderagent";
+// Paths are reported relative to this base so the log stays valid on another checkout, as code
+// scanning services expect; the base itself is only resolved when the root is known.
+const ROOT_BASE_ID = "SRCROOT";
+const ID_PREFIX = "llmcoder/";
+
+const SARIF_LEVELS: Record<Severity, "error" | "warning" | "note"> = {
+    [Severity.High]: "error",
+    [Severity.Medium]: "warning",
+    [Severity.Low]: "note",
+};
+
+// One reviewed file. content and hunks are optional: with them, markdown reviews' SEARCH/REPLACE
+// suggestions are reported as fixes of the issues they overlap.
+export interface SarifFileResult {
+    path: string;
+    issues: Issue[];
+    content?: string;
+    hunks?: PatchHunk[];
+}
+
+export interface SarifOptions {
+    // Absolute path the file paths are relative to.
+    root?: string;
+    toolVersion?: string;
+}
+
+interface SarifRegion {
+    startLine: number;
+    endLine: number;
+}
+
+interface SarifFix {
+    description: { text: string };
+    artifactChanges: Array<{
+        artifactLocation: { uri: string; uriBaseId: string };
+        replacements: Array<{ deletedRegion: SarifRegion; insertedContent: { text: string } }>;
+    }>;
+}
+
+const ruleId = (issue: Issue): string => `${ID_PREFIX}${issue.category ?? "other"}`;
+
+const artifactLocation = (path: string) => ({ uri: encodeURI(path.replace(/\\/g, "/")), uriBaseId: ROOT_BASE_ID });
+
+const issueRegion = (issue: Issue): SarifRegion => ({
+    startLine: Math.max(1, issue.line),
+    endLine: Math.max(1, issue.line, issue.endLine ?? issue.line),
+});
+
+const toFix = (path: string, description: string, region: SarifRegion, text: string): SarifFix => ({
+    description: { text: description },
+    artifactChanges: [{ artifactLocation: artifactLocation(path), replacements: [{ deletedRegion: region, insertedContent: { text } }] }],
+});
+
+// A structured issue carries its own fix for its lines; otherwise use the located hunks that
+// overlap the issue's lines.
+const issueFixes = (file: SarifFileResult, issue: Issue, region: SarifRegion, hunkRanges: Array<SarifRegion & { text: string; description?: string }>): SarifFix[] => {
+    if (issue.fix !== undefined) {
+        return [toFix(file.path, "Suggested fix", region, issue.fix)];
+    }
+    return hunkRanges
+        .filter((range) => range.startLine <= region.endLine && region.startLine <= range.endLine)
+        .map((range) => toFix(file.path, range.description || "Suggested change", { startLine: range.startLine, endLine: range.endLine }, range.text));
+};
+
+// Builds a SARIF 2.1.0 log with one run: a rule per issue category, a result per issue.
+export const toSarif = (files: SarifFileResult[], options: SarifOptions = {}) => {
+    const ruleIds = Array.from(new Set(files.flatMap((file) => file.issues.map(ruleId)))).sort();
+    const results = files.flatMap((file) => {
+        const hunkRanges = file.content === undefined
+            ? []
+            : (file.hunks ?? []).flatMap((hunk) => {
+                const range = locateHunkRange(file.content!, hunk);
+                return range ? [{ ...range, description: hunk.description }] : [];
+            });
+        return file.issues.map((issue) => {
+            const region = issueRegion(issue);
+            const fixes = issueFixes(file, issue, region, hunkRanges);
+            return {
+                ruleId: ruleId(issue),
+                ruleIndex: ruleIds.indexOf(ruleId(issue)),
+                level: SARIF_LEVELS[issue.severity],
+                message: { text: issue.message },
+                locations: [{ physicalLocation: { artifactLocation: artifactLocation(file.path), region } }],
+                ...(fixes.length ? { fixes } : {}),
+                properties: { severity: issue.severity },
+            };
+        });
+    });
+
+    return {
+        $schema: SARIF_SCHEMA,
+        version: "2.1.0",
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: TOOL_NAME,
+                        informationUri: TOOL_URI,
+                        ...(options.toolVersion ? { version: options.toolVersion } : {}),
+                        rules: ruleIds.map((id) => {
+                            const name = id.charAt(ID_PREFIX.length).toUpperCase() + id.slice(ID_PREFIX.length + 1);
+                            return { id, name, shortDescription: { text: `${name} issue found by the LLM review` } };
+                        }),
+                    },
+                },
+                ...(options.root
+                    ? { originalUriBaseIds: { [ROOT_BASE_ID]: { uri: pathToFileURL(`${options.root.replace(/[\\/]+$/, "")}/`).href } } }
+                    : {}),
+                results,
+            },
+        ],
+    };
+};
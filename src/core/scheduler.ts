@@ -0,0 +1,185 @@
+import { CancellationError, log } from "./host";
+import { Config, RateLimits, RequestPriority } from "./types";
+
+const WINDOW_MS = 60_000;
+const PRIORITY_RANK: Record<RequestPriority, number> = { interactive: 0, normal: 1, background: 2 };
+
+// Provider names are the llmProvider values in another case ("OpenAI-compatible" for
+// "openai-compatible"), so the per-provider settings are looked up by the lowercased name.
+export const rateLimitsFor = (config: Config, providerName: string): RateLimits => ({
+    maxConcurrent: config.maxConcurrentRequests,
+    requestsPerMinute: config.requestsPerMinute,
+    tokensPerMinute: config.tokensPerMinute,
+    ...config.providerRateLimits[providerName.toLowerCase()],
+});
+
+interface Waiter {
+    rank: number;
+    seq: number;
+    tokens: number;
+    start: () => void;
+}
+
+interface ProviderQueue {
+    limits: RateLimits;
+    active: number;
+    waiting: Waiter[];
+    // Start times and token estimates of the requests sent in the last minute.
+    sent: Array<{ at: number; tokens: number }>;
+    pausedUntil: number;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+interface SharedRequest {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    subscribers: number;
+}
+
+export interface ScheduleOptions {
+    priority?: RequestPriority;
+    // Estimated prompt tokens, counted against tokensPerMinute.
+    tokens?: number;
+    signal?: AbortSignal;
+}
+
+// Shared by every command, so real-time reviews, chat and project reviews draw on one budget per
+// provider instead of each keeping its own.
+export class RequestScheduler {
+    private readonly queues = new Map<string, ProviderQueue>();
+    private readonly shared = new Map<string, SharedRequest>();
+    private seq = 0;
+
+    // Runs task once the provider has a free slot and the per-minute limits allow it. Waiting
+    // requests start in priority order, and in arrival order within a priority.
+    async run<T>(provider: string, limits: RateLimits, options: ScheduleOptions, task: () => Promise<T>): Promise<T> {
+        const queue = this.queue(provider);
+        queue.limits = limits;
+        await new Promise<void>((resolve, reject) => {
+            const { signal } = options;
+            if (signal?.aborted) {
+                reject(new CancellationError());
+                return;
+            }
+            const onAbort = () => {
+                const index = queue.waiting.indexOf(waiter);
+                if (index >= 0) {
+                    queue.waiting.splice(index, 1);
+                    reject(new CancellationError());
+                }
+            };
+            const waiter: Waiter = {
+                rank: PRIORITY_RANK[options.priority ?? "normal"],
+                seq: this.seq++,
+                tokens: options.tokens ?? 0,
+                start: () => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve();
+                },
+            };
+            const index = queue.waiting.findIndex((other) => other.rank > waiter.rank);
+            queue.waiting.splice(index < 0 ? queue.waiting.length : index, 0, waiter);
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.pump(queue);
+        });
+        try {
+            return await task();
+        } finally {
+            queue.active--;
+            this.pump(queue);
+        }
+    }
+
+    // Holds back the provider's queued requests, e.g. for a Retry-After the server sent.
+    pause(provider: string, ms: number): void {
+        const queue = this.queue(provider);
+        queue.pausedUntil = Math.max(queue.pausedUntil, Date.now() + ms);
+        log(`Pausing ${provider} requests for ${ms}ms`, "INFO");
+    }
+
+    // Callers asking for the same thing while a request is in flight share it. The shared request
+    // is only aborted once every caller has cancelled.
+    dedupe<T>(key: string, signal: AbortSignal | undefined, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+        let entry = this.shared.get(key);
+        if (entry) {
+            log("Joining an identical request already in flight", "DEBUG");
+        } else {
+            const controller = new AbortController();
+            const created: SharedRequest = { controller, subscribers: 0, promise: Promise.resolve() };
+            created.promise = task(controller.signal).finally(() => {
+                if (this.shared.get(key) === created) {
+                    this.shared.delete(key);
+                }
+            });
+            this.shared.set(key, created);
+            entry = created;
+        }
+        const current = entry;
+        current.subscribers++;
+        if (!signal) {
+            return current.promise as Promise<T>;
+        }
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => {
+                if (--current.subscribers === 0) {
+                    if (this.shared.get(key) === current) {
+                        this.shared.delete(key);
+                    }
+                    current.controller.abort();
+                }
+                reject(new CancellationError());
+            };
+            if (signal.aborted) {
+                onAbort();
+                return;
+            }
+            signal.addEventListener("abort", onAbort, { once: true });
+            (current.promise as Promise<T>).then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+        });
+    }
+
+    private queue(provider: string): ProviderQueue {
+        let queue = this.queues.get(provider);
+        if (!queue) {
+            queue = { limits: { maxConcurrent: 0, requestsPerMinute: 0, tokensPerMinute: 0 }, active: 0, waiting: [], sent: [], pausedUntil: 0 };
+            this.queues.set(provider, queue);
+        }
+        return queue;
+    }
+
+    // Starts as many waiting requests as the limits allow, and sets a timer for when the next one
+    // may start if a per-minute limit or a pause is holding it back.
+    private pump(queue: ProviderQueue): void {
+        if (queue.timer) {
+            clearTimeout(queue.timer);
+            queue.timer = undefined;
+        }
+        const { maxConcurrent, requestsPerMinute, tokensPerMinute } = queue.limits;
+        while (queue.waiting.length && (!maxConcurrent || queue.active < maxConcurrent)) {
+            const now = Date.now();
+            queue.sent = queue.sent.filter((request) => request.at > now - WINDOW_MS);
+            const next = queue.waiting[0];
+            const usedTokens = queue.sent.reduce((total, request) => total + request.tokens, 0);
+            let readyAt = queue.pausedUntil;
+            if (requestsPerMinute && queue.sent.length >= requestsPerMinute) {
+                readyAt = Math.max(readyAt, queue.sent[queue.sent.length - requestsPerMinute].at + WINDOW_MS);
+            }
+            // A request larger than the whole budget still goes out once nothing else counts against it.
+            if (tokensPerMinute && queue.sent.length && usedTokens + next.tokens > tokensPerMinute) {
+                let freed = 0;
+                const oldest = queue.sent.find((request) => (freed += request.tokens) >= usedTokens + next.tokens - tokensPerMinute);
+                readyAt = Math.max(readyAt, (oldest ?? queue.sent[queue.sent.length - 1]).at + WINDOW_MS);
+            }
+            if (readyAt > now) {
+                queue.timer = setTimeout(() => this.pump(queue), readyAt - now);
+                return;
+            }
+            queue.waiting.shift();
+            queue.active++;
+            queue.sent.push({ at: now, tokens: next.tokens });
+            next.start();
+        }
+    }
+}
+
+export const scheduler = new RequestScheduler();
@@ -0,0 +1,98 @@
+import { randomUUID } from "crypto";
+import { ChatMessage } from "./types";
+
+const CHAT_SESSIONS_KEY = "llmcoderagent.chatSessions";
+const ACTIVE_CHAT_SESSION_KEY = "llmcoderagent.activeChatSession";
+const DEFAULT_SESSION_NAME = "New Chat";
+
+export interface ChatSession {
+    id: string;
+    name: string;
+    messages: ChatMessage[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+// The part of vscode.Memento the store uses.
+export interface SessionState {
+    get<T>(key: string): T | undefined;
+    get<T>(key: string, defaultValue: T): T;
+    update(key: string, value: unknown): PromiseLike<void>;
+}
+
+// Named conversations persisted in workspace state, so each workspace keeps its own sessions.
+export class ChatSessionStore {
+    private state: SessionState;
+
+    constructor(state: SessionState) {
+        this.state = state;
+    }
+
+    public list(): ChatSession[] {
+        return this.state.get<ChatSession[]>(CHAT_SESSIONS_KEY, []);
+    }
+
+    public get(id: string): ChatSession | undefined {
+        return this.list().find((session) => session.id === id);
+    }
+
+    public async active(): Promise<ChatSession> {
+        const active = this.get(this.state.get<string>(ACTIVE_CHAT_SESSION_KEY, ""));
+        return active ?? this.list()[0] ?? (await this.create());
+    }
+
+    public async create(name: string = DEFAULT_SESSION_NAME): Promise<ChatSession> {
+        const now = Date.now();
+        const session: ChatSession = { id: randomUUID(), name, messages: [], createdAt: now, updatedAt: now };
+        await this.save([...this.list(), session]);
+        await this.setActive(session.id);
+        return session;
+    }
+
+    public async setActive(id: string): Promise<void> {
+        await this.state.update(ACTIVE_CHAT_SESSION_KEY, id);
+    }
+
+    public async rename(id: string, name: string): Promise<void> {
+        await this.update(id, (session) => ({ ...session, name }));
+    }
+
+    public async delete(id: string): Promise<void> {
+        await this.save(this.list().filter((session) => session.id !== id));
+        if (this.state.get<string>(ACTIVE_CHAT_SESSION_KEY) === id) {
+            await this.state.update(ACTIVE_CHAT_SESSION_KEY, undefined);
+        }
+    }
+
+    public async append(id: string, messages: ChatMessage[], limit: number): Promise<void> {
+        await this.update(id, (session) => ({
+            ...session,
+            // Untitled sessions take their name from the first question asked.
+            name: session.name === DEFAULT_SESSION_NAME && !session.messages.length && messages.length
+                ? messages[0].content.slice(0, 40)
+                : session.name,
+            messages: [...session.messages, ...messages].slice(-limit),
+        }));
+    }
+
+    public async clear(id: string): Promise<void> {
+        await this.update(id, (session) => ({ ...session, messages: [] }));
+    }
+
+    public export(session: ChatSession, format: "markdown" | "json"): string {
+        if (format === "json") {
+            return JSON.stringify(session, null, 2);
+        }
+        const messages = session.messages.map((message) =>
+            `### ${message.role === "user" ? "User" : "Assistant"} (${new Date(message.timestamp).toLocaleString()})\n\n${message.content}`);
+        return `# ${session.name}\n\n_Exported from LLMCoderAgent on ${new Date().toLocaleString()}_\n\n${messages.join("\n\n")}\n`;
+    }
+
+    private async update(id: string, change: (session: ChatSession) => ChatSession): Promise<void> {
+        await this.save(this.list().map((session) => (session.id === id ? { ...change(session), updatedAt: Date.now() } : session)));
+    }
+
+    private async save(sessions: ChatSession[]): Promise<void> {
+        await this.state.update(CHAT_SESSIONS_KEY, sessions);
+    }
+}
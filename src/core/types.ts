@@ -0,0 +1,210 @@
+// Shared by the extension and the CLI; nothing in src/core may import vscode.
+
+// String values, so issues cached or exported before the enum existed still deserialize.
+export enum Severity {
+    High = "High",
+    Medium = "Medium",
+    Low = "Low",
+}
+
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: string[];
+}
+
+export interface DiffFile {
+    path: string;
+    oldPath?: string;
+    status: "added" | "deleted" | "modified" | "renamed";
+    binary: boolean;
+    hunks: DiffHunk[];
+}
+
+// newSide is "worktree", "index" or the revision the diff ends at.
+export interface DiffTarget {
+    label: string;
+    args: string[];
+    newSide: string;
+    includeUntracked?: boolean;
+}
+
+export interface ChatMessage {
+    role: "user" | "assistant";
+    content: string;
+    timestamp: number;
+}
+
+export interface Issue {
+    line: number;
+    endLine?: number;
+    message: string;
+    severity: Severity;
+    category?: string;
+    fix?: string;
+}
+
+export interface PatchHunk {
+    search: string;
+    replace: string;
+    startLine?: number;
+    description?: string;
+}
+
+export interface PatchResult {
+    content: string;
+    applied: PatchHunk[];
+    failed: Array<{ hunk: PatchHunk; reason: string }>;
+}
+
+export interface ContextPart {
+    kind: "retrieved" | "file" | "selection" | "related";
+    label: string;
+    content: string;
+}
+
+export interface FittedContext {
+    history: ChatMessage[];
+    parts: ContextPart[];
+    dropped: string[];
+    window: number;
+}
+
+export interface StructuredReview {
+    summary: string;
+    issues: Issue[];
+}
+
+// Commands that can be routed to their own provider profile.
+export type CommandRoute = "realtime" | "chat" | "reviewFile" | "reviewProject" | "generate" | "explain" | "gitDiff";
+
+// A named provider setup: the provider, its model, and any other settings it overrides.
+export interface ProviderProfile {
+    provider: string;
+    model?: string;
+    settings?: Record<string, unknown>;
+}
+
+// Per-provider request limits; 0 means no limit.
+export interface RateLimits {
+    maxConcurrent: number;
+    requestsPerMinute: number;
+    tokensPerMinute: number;
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+// One completed request's token usage; estimated when the provider did not report it.
+export interface UsageRecord extends TokenUsage {
+    at: number;
+    provider: string;
+    model: string;
+    command?: CommandRoute;
+    file?: string;
+    estimated: boolean;
+}
+
+// Interactive requests are served ahead of normal ones, and normal ones ahead of background work.
+export type RequestPriority = "interactive" | "normal" | "background";
+
+export interface Config {
+    llmProvider: string;
+    flowiseUrl: string;
+    flowiseChatflowId: string;
+    flowiseTemperature?: number;
+    flowiseSystemMessage: string;
+    flowiseOverrideConfig: Record<string, unknown>;
+    openaiModel: string;
+    openaiCompatibleBaseUrl: string;
+    openaiCompatibleModel: string;
+    openaiCompatibleAuthHeader: string;
+    openaiCompatibleHeaders: Record<string, string>;
+    anthropicModel: string;
+    anthropicBaseUrl: string;
+    anthropicMaxTokens: number;
+    anthropicSystemPrompt: string;
+    ollamaModel: string;
+    ollamaHost: string;
+    ollamaSystemPrompt: string;
+    providerProfiles: Record<string, ProviderProfile>;
+    providerFallbacks: string[];
+    commandProviders: Partial<Record<CommandRoute, string>>;
+    maxConcurrentRequests: number;
+    requestsPerMinute: number;
+    tokensPerMinute: number;
+    providerRateLimits: Record<string, Partial<RateLimits>>;
+    tokenPrices: Record<string, { input?: number; output?: number }>;
+    dailyTokenBudget: number;
+    dailyCostBudget: number;
+    apiTimeout: number;
+    apiMaxRetries: number;
+    apiRetryDelay: number;
+    maxFiles: number;
+    reviewBatchSize: number;
+    maxFileSize: number;
+    autoApplyChanges: boolean;
+    statusBarTimeout: number;
+    includePatterns: string[];
+    excludePatterns: string[];
+    reviewPrompt: string;
+    explainPrompt: string;
+    generatePrompt: string;
+    webviewTitle: string;
+    inputPlaceholder: string;
+    autoScroll: boolean;
+    useVsCodeTheme: boolean;
+    messageHistoryLimit: number;
+    realTimeDiagnostics: boolean;
+    realTimeDebounceMs: number;
+    streamResponses: boolean;
+    reviewOutputFormat: "auto" | "json" | "markdown";
+    structuredReviewPrompt: string;
+    incrementalProjectReview: boolean;
+    reportFolder: string;
+    commitMessageConvention: "conventional" | "template";
+    commitMessageTemplate: string;
+    commitMessageSubjectLength: number;
+    prDescriptionTemplate: string;
+    commitGateSeverity: Severity;
+    contextWindow: number;
+    relatedFilesTokenLimit: number;
+    embeddingModel: string;
+    retrievalTopK: number;
+}
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+    responseFormat?: "text" | "json";
+    // Identifies a chat session to providers that keep conversation memory server-side.
+    sessionId?: string;
+    priority?: RequestPriority;
+    // What the request's token usage is recorded against.
+    command?: CommandRoute;
+    file?: string;
+    // Called by providers that report the tokens a response used.
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface ResponseOptions extends RequestOptions {
+    sanitize?: boolean;
+}
+
+export interface ReviewRequestOptions extends RequestOptions {
+    onToken?: (token: string) => void;
+}
+
+export interface LLMProvider {
+    getName(): string;
+    getModel(): string;
+    getResponse(prompt: string, history: ChatMessage[], options?: RequestOptions): Promise<string>;
+    streamResponse(prompt: string, history: ChatMessage[], onToken: (token: string) => void, options?: RequestOptions): Promise<string>;
+    supportsJsonMode(): boolean;
+    getContextWindow(): number;
+    estimateTokens(text: string): number;
+    testConnection(): Promise<boolean>;
+}
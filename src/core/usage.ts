@@ -0,0 +1,106 @@
+import { Config, UsageRecord } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_DAYS = 90;
+// Requests made outside a routed command, e.g. by the CLI or a connection check.
+const UNATTRIBUTED = "other";
+
+// Usage is stored as daily totals per command, file, provider and model rather than per request,
+// so months of real-time reviews stay small.
+export interface UsageEntry {
+    day: string;
+    command: string;
+    file?: string;
+    provider: string;
+    model: string;
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    // Requests whose counts were estimated because the provider did not report them.
+    estimatedRequests: number;
+}
+
+export interface UsageTotals {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    estimatedRequests: number;
+    // Undefined when no tokenPrices entry covers any of the usage.
+    cost?: number;
+}
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+// Days are local, so "today" matches the user's calendar.
+export const usageDay = (at: number): string => {
+    const date = new Date(at);
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Adds a request to its daily entry and drops entries older than the retention period.
+export const addUsage = (entries: UsageEntry[], record: UsageRecord): UsageEntry[] => {
+    const day = usageDay(record.at);
+    const command = record.command ?? UNATTRIBUTED;
+    const matches = (entry: UsageEntry) =>
+        entry.day === day && entry.command === command && entry.file === record.file && entry.provider === record.provider && entry.model === record.model;
+    const existing = entries.find(matches);
+    const updated: UsageEntry = {
+        day,
+        command,
+        ...(record.file ? { file: record.file } : {}),
+        provider: record.provider,
+        model: record.model,
+        requests: (existing?.requests ?? 0) + 1,
+        inputTokens: (existing?.inputTokens ?? 0) + record.inputTokens,
+        outputTokens: (existing?.outputTokens ?? 0) + record.outputTokens,
+        estimatedRequests: (existing?.estimatedRequests ?? 0) + (record.estimated ? 1 : 0),
+    };
+    const cutoff = usageDay(record.at - RETENTION_DAYS * DAY_MS);
+    return [...entries.filter((entry) => !matches(entry) && entry.day > cutoff), updated];
+};
+
+// Prices are per million tokens, looked up by model name first and then by provider.
+export const usageCost = (config: Config, usage: { provider: string; model: string; inputTokens: number; outputTokens: number }): number | undefined => {
+    const price = config.tokenPrices[usage.model] ?? config.tokenPrices[usage.provider.toLowerCase()];
+    return price ? (usage.inputTokens * (price.input ?? 0) + usage.outputTokens * (price.output ?? 0)) / 1_000_000 : undefined;
+};
+
+export const totalUsage = (entries: Array<UsageEntry | UsageRecord>, config: Config): UsageTotals =>
+    entries.reduce<UsageTotals>((totals, entry) => {
+        const cost = usageCost(config, entry);
+        return {
+            requests: totals.requests + ("requests" in entry ? entry.requests : 1),
+            inputTokens: totals.inputTokens + entry.inputTokens,
+            outputTokens: totals.outputTokens + entry.outputTokens,
+            estimatedRequests: totals.estimatedRequests + ("estimatedRequests" in entry ? entry.estimatedRequests : entry.estimated ? 1 : 0),
+            cost: cost === undefined ? totals.cost : (totals.cost ?? 0) + cost,
+        };
+    }, { requests: 0, inputTokens: 0, outputTokens: 0, estimatedRequests: 0 });
+
+// Totals per group, largest token count first.
+export const groupUsage = (entries: UsageEntry[], keyOf: (entry: UsageEntry) => string, config: Config): Array<{ key: string; totals: UsageTotals }> => {
+    const groups = new Map<string, UsageEntry[]>();
+    for (const entry of entries) {
+        const key = keyOf(entry);
+        groups.set(key, [...(groups.get(key) ?? []), entry]);
+    }
+    return Array.from(groups, ([key, grouped]) => ({ key, totals: totalUsage(grouped, config) }))
+        .sort((a, b) => b.totals.inputTokens + b.totals.outputTokens - (a.totals.inputTokens + a.totals.outputTokens));
+};
+
+export const formatTokens = (count: number): string =>
+    count >= 1_000_000 ? `${(count / 1_000_000).toFixed(1)}M` : count >= 1_000 ? `${(count / 1_000).toFixed(1)}k` : String(count);
+
+export const formatCost = (cost: number): string => cost.toFixed(cost < 1 ? 4 : 2);
+
+// The soft daily budgets, as a message once today's usage reaches either of them.
+export const budgetWarning = (today: UsageTotals, config: Config): string | undefined => {
+    const tokens = today.inputTokens + today.outputTokens;
+    if (config.dailyTokenBudget && tokens >= config.dailyTokenBudget) {
+        return `LLMCoder has used ${formatTokens(tokens)} tokens today, over the daily budget of ${formatTokens(config.dailyTokenBudget)}.`;
+    }
+    if (config.dailyCostBudget && today.cost !== undefined && today.cost >= config.dailyCostBudget) {
+        return `LLMCoder has spent ${formatCost(today.cost)} today, over the daily budget of ${formatCost(config.dailyCostBudget)}.`;
+    }
+    return undefined;
+};
@@ -1,10 +1,46 @@
 import * as vscode from "vscode";
-import axios, { AxiosError } from "axios";
-import { basename, join } from "path";
+import { basename, dirname, extname, isAbsolute, join, relative, resolve } from "path";
 import { promises as fs } from "fs";
 import { tmpdir } from "os";
 import sanitizeHtml from "sanitize-html";
-import { minimatch } from "minimatch";
+import { matchesFilePatterns, parseJsonc, providerChain, resolveConfig } from "./core/config";
+import { extractJsImports, extractPythonImports, matchPathPattern, resolvePackageExports } from "./core/imports";
+import { MIN_TRUNCATED_TOKENS, describeTrimmedContext, fitContextBudget, renderContextParts, truncateToTokens } from "./core/context";
+import {
+    STAGED_CHANGES,
+    diffTargetFromRange,
+    generateCommitMessage,
+    generatePrDescription,
+    getBranchCommits,
+    getGitDiff,
+    matchesWorkingTree,
+    reviewDiffFile,
+    runCommitGate,
+    runGit,
+    validateRevision,
+} from "./core/git";
+import { isCancellation, setHost } from "./core/host";
+import { buildExplainPrompt } from "./core/prompts";
+import {
+    AnthropicProvider,
+    FlowiseProvider,
+    OllamaProvider,
+    OpenAIProvider,
+    ProviderChain,
+    createOpenAICompatibleProvider,
+    getLLMResponse,
+    getLLMStreamResponse,
+    listFlowiseChatflows,
+    parseFlowiseUrl,
+} from "./core/providers";
+import { applyHunks, diffLines, splitLines, trimBlankEdges } from "./core/patch";
+import { ReportFormat, ReviewReport, renderReport, reportFileName } from "./core/report";
+import { SemanticIndex, retrieveContext } from "./core/retrieval";
+import { FileState, compareWithCheckpoint, hashText, isStructuredReview, normalizeSeverity, reviewCacheKey, reviewContent, reviewTemplate } from "./core/review";
+import { SarifFileResult, toSarif } from "./core/sarif";
+import { ChatSessionStore } from "./core/sessions";
+import { CommandRoute, Config, ContextPart, DiffTarget, Issue, LLMProvider, PatchHunk, ReviewRequestOptions, Severity, UsageRecord } from "./core/types";
+import { UsageEntry, UsageTotals, addUsage, budgetWarning, formatCost, formatTokens, groupUsage, totalUsage, usageDay } from "./core/usage";
 
 // Constants
 const OUTPUT_CHANNEL = vscode.window.createOutputChannel("LLMCoderAgent", "log");
@@ -16,14 +52,33 @@ interface FileReview {
     content: string;
     review: string;
     suggestedChanges?: string;
-    issues?: Array<{ line: number; message: string; severity: string }>;
+    hunks?: PatchHunk[];
+    replacementContent?: string;
+    issues?: Issue[];
     relatedFiles?: string[];
+    cached?: boolean;
+    cacheKey?: string;
+    durationMs?: number;
 }
 
-interface ChatMessage {
-    role: "user" | "assistant";
-    content: string;
-    timestamp: number;
+interface CachedReview {
+    key: string;
+    path: string;
+    provider: string;
+    model: string;
+    createdAt: number;
+    review: string;
+    issues: Issue[];
+    suggestedChanges?: string;
+    hunks: PatchHunk[];
+    replacementContent?: string;
+    relatedFiles?: string[];
+}
+
+interface ReviewCheckpoint {
+    commit?: string;
+    createdAt: number;
+    files: Record<string, FileState>;
 }
 
 interface ReviewMetrics {
@@ -32,225 +87,21 @@ interface ReviewMetrics {
     errors: number;
 }
 
-interface Issue {
-    line: number;
-    message: string;
-    severity: string;
-}
-
-interface Config {
-    llmProvider: string;
-    flowiseUrl: string;
-    flowiseToken?: string;
-    openaiModel: string;
-    ollamaModel: string;
-    apiTimeout: number;
-    apiMaxRetries: number;
-    apiRetryDelay: number;
-    maxFiles: number;
-    reviewBatchSize: number;
-    maxFileSize: number;
-    autoApplyChanges: boolean;
-    statusBarTimeout: number;
-    includePatterns: string[];
-    excludePatterns: string[];
-    reviewPrompt: string;
-    explainPrompt: string;
-    generatePrompt: string;
-    webviewTitle: string;
-    inputPlaceholder: string;
-    autoScroll: boolean;
-    useVsCodeTheme: boolean;
-    messageHistoryLimit: number;
-    realTimeDiagnostics: boolean;
-    realTimeDebounceMs: number;
-}
-
-interface LLMProvider {
-    getName(): string;
-    getResponse(prompt: string, history: ChatMessage[]): Promise<string>;
-    testConnection(): Promise<boolean>;
-}
-
-// LLM Providers
-class FlowiseProvider implements LLMProvider {
-    private url: string;
-    private token: string;
-    private config: Config;
-
-    constructor(url: string, token: string, config: Config) {
-        if (!url.startsWith("https://") && !url.includes("localhost")) {
-            throw this.handleError("Flowise URL must use HTTPS for non-localhost environments.");
-        }
-        this.url = url;
-        this.token = this.validateToken(token);
-        this.config = config;
-    }
-
-    getName(): string {
-        return "Flowise";
-    }
-
-    async getResponse(prompt: string, history: ChatMessage[]): Promise<string> {
-        if (!this.token) throw this.handleError("Flowise API token is invalid or missing");
-        const conversation = [...history.map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`), `User: ${prompt}`].join("\n");
-        try {
-            const response = await axios.post(`${this.url}/${this.token}`, { question: conversation }, {
-                headers: { "Content-Type": "application/json" },
-                timeout: this.config.apiTimeout,
-            });
-            return response.data?.text || response.data?.response || JSON.stringify(response.data) || "";
-        } catch (error) {
-            const err = error as AxiosError;
-            if (err.response?.status === 401) {
-                await vscode.commands.executeCommand("llmcoderagent.configureLLM");
-                throw this.handleError("Invalid Flowise API token. Please reconfigure using 'configure llm' command.");
-            } else if (err.code === "ECONNREFUSED") {
-                throw this.handleError(`Flowise server unreachable at ${this.url}. Check the URL and server status.`);
-            }
-            throw this.handleError(`Flowise API error: ${err.message}`);
-        }
-    }
-
-    async testConnection(): Promise<boolean> {
-        try {
-            const response = await axios.post(`${this.url}/${this.token}`, { question: "Ping" }, {
-                headers: { "Content-Type": "application/json" },
-                timeout: this.config.apiTimeout,
-            });
-            return response.status === 200;
-        } catch {
-            return false;
-        }
-    }
-
-    private validateToken(token: string): string {
-        if (!token || token.length < 10) {
-            throw this.handleError("Flowise API token must be at least 10 characters long.");
-        }
-        return token;
-    }
-
-    private handleError(msg: string): Error {
-        log(msg, "ERROR");
-        const action = `Flowise error: ${msg}. Check settings (Ctrl+, search 'llmcoderagent') or Flowise server status.`;
-        vscode.window.showErrorMessage(action, "Open Settings").then((choice) => {
-            if (choice === "Open Settings") {
-                vscode.commands.executeCommand("workbench.action.openSettings", "llmcoderagent");
-            }
-        });
-        return new Error(msg);
-    }
+interface ReviewFailure {
+    uri: vscode.Uri;
+    error: string;
 }
 
-class OpenAIProvider implements LLMProvider {
-    private apiKey: string;
-    private model: string;
-    private config: Config;
-
-    constructor(apiKey: string, model: string, config: Config) {
-        this.apiKey = this.validateApiKey(apiKey);
-        this.model = model;
-        this.config = config;
-    }
-
-    getName(): string {
-        return "OpenAI";
-    }
-
-    async getResponse(prompt: string, history: ChatMessage[]): Promise<string> {
-        const messages = [...history.map((m) => ({ role: m.role, content: m.content })), { role: "user", content: prompt }];
-        try {
-            const response = await axios.post("https://api.openai.com/v1/chat/completions", {
-                model: this.model,
-                messages: messages,
-            }, {
-                headers: { Authorization: `Bearer ${this.apiKey}`, "Content-Type": "application/json" },
-                timeout: this.config.apiTimeout,
-            });
-            return response.data.choices[0].message.content || "";
-        } catch (error) {
-            const err = error as AxiosError;
-            if (err.response?.status === 401) {
-                throw this.handleError("Invalid OpenAI API key. Please update your key in settings.");
-            }
-            throw this.handleError(`OpenAI API error: ${err.message}`);
-        }
-    }
-
-    async testConnection(): Promise<boolean> {
-        try {
-            const response = await axios.post("https://api.openai.com/v1/chat/completions", {
-                model: this.model,
-                messages: [{ role: "user", content: "Ping" }],
-            }, {
-                headers: { Authorization: `Bearer ${this.apiKey}`, "Content-Type": "application/json" },
-                timeout: this.config.apiTimeout,
-            });
-            return response.status === 200;
-        } catch {
-            return false;
-        }
-    }
-
-    private validateApiKey(apiKey: string): string {
-        if (!apiKey || !apiKey.startsWith("sk-")) {
-            throw this.handleError("OpenAI API key must start with 'sk-' and be non-empty.");
-        }
-        return apiKey;
-    }
-
-    private handleError(msg: string): Error {
-        log(msg, "ERROR");
-        return new Error(msg);
-    }
+interface ProposedChange {
+    id: string;
+    uri: vscode.Uri;
+    hunk: PatchHunk;
+    status: "pending" | "accepted" | "rejected" | "applied" | "failed";
+    reason?: string;
 }
 
-class OllamaProvider implements LLMProvider {
-    private readonly config: Config;
-
-    constructor(config: Config) {
-        this.config = config;
-    }
-
-    getName(): string {
-        return "Ollama";
-    }
-
-    async getResponse(prompt: string, history: ChatMessage[]): Promise<string> {
-        const conversation = [...history.map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`), `User: ${prompt}`].join("\n");
-        const url = 'http://localhost:11434/api/generate';
-        const payload = {
-            model: this.config.ollamaModel,
-            prompt: conversation,
-            stream: false,
-        };
-        try {
-            const response = await axios.post(url, payload, {
-                headers: { 'Content-Type': 'application/json' },
-                timeout: this.config.apiTimeout,
-            });
-            return response.data.response || '';
-        } catch (error) {
-            throw this.handleError(`Ollama API error: ${error instanceof Error ? error.message : "Unknown error"}`);
-        }
-    }
-
-    async testConnection(): Promise<boolean> {
-        try {
-            const response = await axios.get('http://localhost:11434/api/tags', {
-                timeout: this.config.apiTimeout,
-            });
-            return response.status === 200;
-        } catch {
-            return false;
-        }
-    }
-
-    private handleError(msg: string): Error {
-        log(msg, "ERROR");
-        return new Error(msg);
-    }
+interface ReviewOptions extends ReviewRequestOptions {
+    cache?: ReviewCache;
 }
 
 // Utility Functions
@@ -263,56 +114,33 @@ const handleError = (msg: string, showMsg = true): Error => {
     return new Error(msg);
 };
 
-const getConfig = (): Config => {
-    const cfg = vscode.workspace.getConfiguration("llmcoderagent");
-    const defaultReviewPrompt = cfg.get<string>("llmProvider") === "flowise"
-        ? `You are a Flowise-powered code reviewer. Analyze the following code:\n\`\`\`\n{content}\n\`\`\`\nProvide a markdown review with sections: Code Quality, Issues (with line numbers), Performance, Security, and Suggested Changes (in a code block).`
-        : `You are an expert code reviewer. Review the following code from {filename}:\n\`\`\`\n{content}\n\`\`\`\nProvide a detailed review in markdown format with the following sections:\n1. **Code Quality**: Assess readability, maintainability, and adherence to best practices.\n2. **Potential Issues**: Identify bugs or logical errors with specific line numbers.\n3. **Performance**: Suggest optimizations for efficiency.\n4. **Security**: Highlight potential vulnerabilities.\n5. **Suggested Changes**: Provide a code block with recommended changes.\n6. **Issues List**: Summarize issues in a bullet list with line numbers and severity (High/Medium/Low).\nEnsure the review is concise, actionable, and includes specific examples.`;
-    return {
-        llmProvider: cfg.get<string>("llmProvider", "ollama"),
-        flowiseUrl: cfg.get<string>("flowiseUrl", "https://your-flowise-server.com/api/v1/prediction"),
-        flowiseToken: cfg.get<string>("flowiseToken"),
-        openaiModel: cfg.get<string>("openaiModel", "gpt-3.5-turbo"),
-        ollamaModel: cfg.get<string>("ollamaModel", "deepseek-coder:6.7b-base"),
-        apiTimeout: cfg.get<number>("apiTimeout", 60000), // Increased to 60 seconds
-        apiMaxRetries: cfg.get<number>("apiMaxRetries", 5), // Increased to 5 retries
-        apiRetryDelay: cfg.get<number>("apiRetryDelay", 2000), // Increased to 2 seconds
-        maxFiles: cfg.get<number>("maxFiles", 1000),
-        reviewBatchSize: cfg.get<number>("reviewBatchSize", 5),
-        maxFileSize: cfg.get<number>("maxFileSize", 100000),
-        autoApplyChanges: cfg.get<boolean>("autoApplyChanges", false),
-        statusBarTimeout: cfg.get<number>("statusBarTimeout", 2000),
-        includePatterns: cfg.get<string[]>("includePatterns", ["**/*.{ts,js,py,md}"]),
-        excludePatterns: cfg.get<string[]>("excludePatterns", [
-            "**/node_modules/**",
-            "**/.git/**",
-            "**/dist/**",
-            "**/build/**",
-            "**/*.log",
-            "**/*.lock",
-            "**/*.bak.*",
-        ]),
-        reviewPrompt: cfg.get<string>("reviewPrompt", defaultReviewPrompt),
-        explainPrompt: cfg.get<string>("explainPrompt", ""),
-        generatePrompt: cfg.get<string>("generatePrompt", ""),
-        webviewTitle: cfg.get<string>("webviewTitle", "LLMCoder Chat"),
-        inputPlaceholder: cfg.get<string>("inputPlaceholder", "Ask the LLM something, type 'review project', 'review file', or 'help'..."),
-        autoScroll: cfg.get<boolean>("autoScroll", true),
-        useVsCodeTheme: cfg.get<boolean>("useVsCodeTheme", true),
-        messageHistoryLimit: cfg.get<number>("messageHistoryLimit", 100),
-        realTimeDiagnostics: cfg.get<boolean>("realTimeDiagnostics", false),
-        realTimeDebounceMs: cfg.get<number>("realTimeDebounceMs", 500),
-    };
+const toAbortSignal = (token: vscode.CancellationToken): AbortSignal => {
+    const controller = new AbortController();
+    if (token.isCancellationRequested) {
+        controller.abort();
+    } else {
+        token.onCancellationRequested(() => controller.abort());
+    }
+    return controller.signal;
 };
 
-const shouldIncludeFile = (uri: vscode.Uri, config: Config): boolean => {
-    const relativePath = vscode.workspace.asRelativePath(uri);
-    return (
-        config.includePatterns.some((pattern) => minimatch(relativePath, pattern)) &&
-        !config.excludePatterns.some((pattern) => minimatch(relativePath, pattern))
+const withCancellableProgress = <T>(
+    title: string,
+    task: (signal: AbortSignal, progress: vscode.Progress<{ message?: string }>) => Promise<T>
+): Thenable<T> =>
+    vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+        (progress, token) => task(toAbortSignal(token), progress)
     );
+
+const getConfig = (): Config => {
+    const cfg = vscode.workspace.getConfiguration("llmcoderagent");
+    return resolveConfig((key) => cfg.get(key));
 };
 
+const shouldIncludeFile = (uri: vscode.Uri, config: Config): boolean =>
+    matchesFilePatterns(vscode.workspace.asRelativePath(uri), config);
+
 const readFileContent = async (uri: vscode.Uri, config: Config, cache?: Map<string, string>): Promise<string> => {
     try {
         const stat = await vscode.workspace.fs.stat(uri);
@@ -368,132 +196,756 @@ const applyFileContent = async (uri: vscode.Uri, newContent: string, config: Con
     return true;
 };
 
-const getLLMResponse = async (prompt: string, config: Config, chatHistory: ChatMessage[] = [], provider: LLMProvider): Promise<string> => {
-    for (let attempt = 0; attempt < config.apiMaxRetries; attempt++) {
+// Module Resolution
+const JS_EXTENSIONS = [".ts", ".tsx", ".d.ts", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+// ESM-style TypeScript imports name the emitted file, e.g. "./util.js" for util.ts.
+const JS_SOURCE_EXTENSIONS: Record<string, string[]> = { ".js": [".ts", ".tsx"], ".jsx": [".tsx"], ".mjs": [".mts"], ".cjs": [".cts"] };
+const MAX_TSCONFIG_EXTENDS = 5;
+const MAX_WORKSPACE_PACKAGES = 500;
+
+const isFile = async (path: string): Promise<boolean> => {
+    try {
+        return ((await vscode.workspace.fs.stat(vscode.Uri.file(path))).type & vscode.FileType.File) !== 0;
+    } catch {
+        return false;
+    }
+};
+
+// The parts of a tsconfig.json or jsconfig.json the resolver reads. Files are unchecked, so each
+// value is still tested before use.
+interface TsConfigFile {
+    extends?: unknown;
+    compilerOptions?: { baseUrl?: unknown; paths?: Record<string, string[]> };
+}
+
+// The package.json fields used to resolve imports of a workspace package.
+interface PackageManifest {
+    name: string;
+    main?: string;
+    module?: string;
+    types?: string;
+    exports?: unknown;
+}
+
+interface PathMapping {
+    baseUrl?: string;
+    paths?: Record<string, string[]>;
+    pathsBase: string;
+}
+
+// Resolves import specifiers to files inside the workspace. tsconfig lookups and the workspace
+// package list are cached until a tsconfig, jsconfig or package.json changes.
+class ModuleResolver {
+    private readonly pathMappings: Map<string, Promise<PathMapping | undefined>> = new Map();
+    private packages: Promise<Map<string, { dir: string; manifest: PackageManifest }>> | undefined;
+
+    clearCache(): void {
+        this.pathMappings.clear();
+        this.packages = undefined;
+    }
+
+    async resolveJs(specifier: string, fromPath: string, root: string): Promise<string | undefined> {
+        if (specifier.startsWith(".")) {
+            return this.resolveFile(resolve(dirname(fromPath), specifier));
+        }
+        if (isAbsolute(specifier)) {
+            return this.resolveFile(specifier);
+        }
+        const mapping = await this.findPathMapping(dirname(fromPath), root);
+        for (const [pattern, targets] of Object.entries(mapping?.paths ?? {})) {
+            const match = matchPathPattern(pattern, specifier);
+            if (match === undefined) {
+                continue;
+            }
+            for (const target of targets) {
+                const resolved = await this.resolveFile(resolve(mapping!.baseUrl ?? mapping!.pathsBase, target.replace("*", match)));
+                if (resolved) {
+                    return resolved;
+                }
+            }
+        }
+        if (mapping?.baseUrl) {
+            const resolved = await this.resolveFile(resolve(mapping.baseUrl, specifier));
+            if (resolved) {
+                return resolved;
+            }
+        }
+        return this.resolveWorkspacePackage(specifier);
+    }
+
+    // `from pkg import name` may import a submodule rather than a name, so both are tried.
+    async resolvePython(module: string, names: string[], fromPath: string, roots: string[]): Promise<string[]> {
+        const dots = module.match(/^\.*/)![0].length;
+        const parts = module.slice(dots).split(".").filter(Boolean);
+        const bases = dots ? [resolve(dirname(fromPath), ...Array(dots - 1).fill(".."))] : roots;
+        for (const base of bases) {
+            const modulePath = join(base, ...parts);
+            const resolved: string[] = [];
+            const moduleFile = await this.resolvePythonPath(modulePath);
+            if (moduleFile) {
+                resolved.push(moduleFile);
+            }
+            for (const name of names) {
+                const submodule = await this.resolvePythonPath(join(modulePath, name));
+                if (submodule) {
+                    resolved.push(submodule);
+                }
+            }
+            if (resolved.length) {
+                return resolved;
+            }
+        }
+        return [];
+    }
+
+    private async resolvePythonPath(path: string): Promise<string | undefined> {
+        for (const candidate of [`${path}.py`, join(path, "__init__.py")]) {
+            if (await isFile(candidate)) {
+                return candidate;
+            }
+        }
+        return undefined;
+    }
+
+    private async resolveFile(base: string): Promise<string | undefined> {
+        if (await isFile(base)) {
+            return base;
+        }
+        const extension = extname(base);
+        const candidates = [
+            ...(JS_SOURCE_EXTENSIONS[extension] ?? []).map((source) => base.slice(0, -extension.length) + source),
+            ...JS_EXTENSIONS.map((ext) => base + ext),
+            ...JS_EXTENSIONS.map((ext) => join(base, `index${ext}`)),
+        ];
+        for (const candidate of candidates) {
+            if (await isFile(candidate)) {
+                return candidate;
+            }
+        }
+        return undefined;
+    }
+
+    private findPathMapping(dir: string, root: string): Promise<PathMapping | undefined> {
+        if (!this.pathMappings.has(dir)) {
+            this.pathMappings.set(dir, (async () => {
+                for (const name of ["tsconfig.json", "jsconfig.json"]) {
+                    const candidate = join(dir, name);
+                    if (await isFile(candidate)) {
+                        return this.loadPathMapping(candidate, 0);
+                    }
+                }
+                const parent = dirname(dir);
+                return parent !== dir && !relative(root, parent).startsWith("..") ? this.findPathMapping(parent, root) : undefined;
+            })());
+        }
+        return this.pathMappings.get(dir)!;
+    }
+
+    // Follows relative "extends" chains; settings from the extending config win, and paths
+    // without a baseUrl are relative to the config that declares them.
+    private async loadPathMapping(file: string, depth: number): Promise<PathMapping | undefined> {
         try {
-            log(`Sending ${provider.getName()} request (Attempt ${attempt + 1})`, "DEBUG");
-            const response = await provider.getResponse(prompt, chatHistory);
-            const sanitized = sanitizeHtml(response, { allowedTags: ["pre", "code", "b", "i"], allowedAttributes: {} });
-            log(`Response received: ${sanitized.slice(0, 100)}...`, "DEBUG");
-            return sanitized || "No response received from LLM";
+            const tsconfig = (parseJsonc(new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.file(file)))) ?? {}) as TsConfigFile;
+            const inherited = typeof tsconfig.extends === "string" && tsconfig.extends.startsWith(".") && depth < MAX_TSCONFIG_EXTENDS
+                ? await this.loadPathMapping(resolve(dirname(file), tsconfig.extends.endsWith(".json") ? tsconfig.extends : `${tsconfig.extends}.json`), depth + 1)
+                : undefined;
+            const options = tsconfig.compilerOptions ?? {};
+            return {
+                baseUrl: typeof options.baseUrl === "string" ? resolve(dirname(file), options.baseUrl) : inherited?.baseUrl,
+                paths: options.paths ?? inherited?.paths,
+                pathsBase: options.paths ? dirname(file) : inherited?.pathsBase ?? dirname(file),
+            };
         } catch (error) {
-            const message = `Failed to fetch ${provider.getName()} response: ${error instanceof Error ? error.message : "Unknown error"}`;
-            log(message, "ERROR");
-            if (attempt < config.apiMaxRetries - 1) {
-                const delay = config.apiRetryDelay * Math.pow(2, attempt);
-                log(`Retrying in ${delay}ms...`, "INFO");
-                await new Promise((resolve) => setTimeout(resolve, delay));
-            } else {
-                const errorMsg = `${message} (All ${config.apiMaxRetries} retries failed)`;
-                vscode.window.showErrorMessage(errorMsg, "Check Settings", "Retry").then((selection) => {
-                    if (selection === "Check Settings") vscode.commands.executeCommand("workbench.action.openSettings", "llmcoderagent");
-                    else if (selection === "Retry") vscode.commands.executeCommand("llmcoderagent.openChat");
-                });
-                throw handleError(errorMsg, false);
+            log(`Ignoring unreadable ${file}: ${error instanceof Error ? error.message : "Unknown error"}`, "DEBUG");
+            return undefined;
+        }
+    }
+
+    private async resolveWorkspacePackage(specifier: string): Promise<string | undefined> {
+        const segments = specifier.split("/");
+        const name = specifier.startsWith("@") ? segments.slice(0, 2).join("/") : segments[0];
+        const pkg = (await this.workspacePackages()).get(name);
+        if (!pkg) {
+            return undefined;
+        }
+        const subpath = `.${specifier.slice(name.length)}`;
+        const target = pkg.manifest.exports !== undefined
+            ? resolvePackageExports(pkg.manifest.exports, subpath)
+            : subpath === "." ? pkg.manifest.types ?? pkg.manifest.module ?? pkg.manifest.main ?? "index" : subpath;
+        return typeof target === "string" ? this.resolveFile(resolve(pkg.dir, target)) : undefined;
+    }
+
+    private workspacePackages(): Promise<Map<string, { dir: string; manifest: PackageManifest }>> {
+        this.packages ??= (async () => {
+            const packages = new Map<string, { dir: string; manifest: PackageManifest }>();
+            for (const uri of await vscode.workspace.findFiles("**/package.json", "**/node_modules/**", MAX_WORKSPACE_PACKAGES)) {
+                try {
+                    const manifest: PackageManifest = JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)));
+                    if (typeof manifest.name === "string") {
+                        packages.set(manifest.name, { dir: dirname(uri.fsPath), manifest });
+                    }
+                } catch {
+                    log(`Ignoring unreadable ${uri.fsPath}`, "DEBUG");
+                }
             }
+            return packages;
+        })();
+        return this.packages;
+    }
+}
+
+const MODULE_RESOLVER = new ModuleResolver();
+
+const resolveRelatedUris = async (uri: vscode.Uri, config: Config): Promise<vscode.Uri[]> => {
+    const root = vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath;
+    if (!root) {
+        return [];
+    }
+    const content = await readFileContent(uri, config);
+    const paths = extname(uri.fsPath) === ".py"
+        ? (await Promise.all(extractPythonImports(content).map(({ module, names }) =>
+            MODULE_RESOLVER.resolvePython(module, names, uri.fsPath, [dirname(uri.fsPath), root, join(root, "src")])))).flat()
+        : await Promise.all(extractJsImports(content).map((specifier) => MODULE_RESOLVER.resolveJs(specifier, uri.fsPath, root)));
+    const related = new Map<string, vscode.Uri>();
+    for (const path of paths) {
+        if (!path || path === uri.fsPath || relative(root, path).startsWith("..")) {
+            continue;
+        }
+        const resolvedUri = vscode.Uri.file(path);
+        if (shouldIncludeFile(resolvedUri, config)) {
+            related.set(path, resolvedUri);
         }
     }
-    throw handleError("Unexpected error in getLLMResponse");
+    return Array.from(related.values());
 };
 
-const getRelatedFiles = async (uri: vscode.Uri, config: Config): Promise<string[]> => {
-    const content = await readFileContent(uri, config);
-    const importRegex = /(?:import|require)\s+.*?\s+from\s+['"]([^'"]+)['"]/g;
-    const relatedFiles: string[] = [];
-    let match;
-    while ((match = importRegex.exec(content)) !== null) {
-        const resolvedPath = join(uri.fsPath, "..", match[1]);
-        const resolvedUri = vscode.Uri.file(resolvedPath);
-        if (await fileExists(resolvedUri) && shouldIncludeFile(resolvedUri, config)) {
-            relatedFiles.push(vscode.workspace.asRelativePath(resolvedUri));
+const getRelatedFiles = async (uri: vscode.Uri, config: Config): Promise<string[]> =>
+    (await resolveRelatedUris(uri, config)).map((related) => vscode.workspace.asRelativePath(related));
+
+// Related files share a token cap, at most a quarter of the context window, so imports cannot
+// crowd the file itself out of the prompt.
+const readRelatedContext = async (uri: vscode.Uri, config: Config, provider: LLMProvider): Promise<ContextPart[]> => {
+    const parts: ContextPart[] = [];
+    let remaining = Math.min(config.relatedFilesTokenLimit, Math.floor(provider.getContextWindow() / 4));
+    for (const related of await resolveRelatedUris(uri, config)) {
+        if (remaining < MIN_TRUNCATED_TOKENS) {
+            break;
+        }
+        const label = `related file: ${vscode.workspace.asRelativePath(related)}`;
+        try {
+            let content = await readFileContent(related, config);
+            if (provider.estimateTokens(content) > remaining) {
+                content = `${truncateToTokens(provider, content, remaining).content}\n... [truncated]`;
+            }
+            remaining -= provider.estimateTokens(content);
+            parts.push({ kind: "related", label, content });
+        } catch (error) {
+            log(`Skipping ${label}: ${error instanceof Error ? error.message : "Unknown error"}`, "ERROR");
         }
     }
-    return relatedFiles;
+    return parts;
 };
 
-const fileExists = async (uri: vscode.Uri): Promise<boolean> => {
-    try {
-        await vscode.workspace.fs.stat(uri);
-        return true;
-    } catch {
+// Git
+// Lists local and remote branches, the usual base branches first.
+const pickBaseBranch = async (root: string): Promise<string | undefined> => {
+    const current = (await runGit(["rev-parse", "--abbrev-ref", "HEAD"], root)).trim();
+    const branches = (await runGit(["for-each-ref", "--format=%(refname:short)", "refs/heads", "refs/remotes"], root))
+        .split("\n")
+        .map((branch) => branch.trim())
+        .filter((branch) => branch && branch !== current && !branch.endsWith("/HEAD"));
+    const preferred = ["main", "master", "origin/main", "origin/master", "develop"];
+    branches.sort((a, b) => (preferred.indexOf(a) + 1 || Infinity) - (preferred.indexOf(b) + 1 || Infinity));
+    if (!branches.length) {
+        vscode.window.showInformationMessage("No other branches to compare against.");
+        return undefined;
+    }
+    return vscode.window.showQuickPick(branches, { placeHolder: "Select the base branch" });
+};
+
+const pickDiffTarget = async (root: string): Promise<DiffTarget | undefined> => {
+    const mode = await vscode.window.showQuickPick([
+        { label: "Staged changes", description: "git diff --cached", id: "staged" },
+        { label: "Working tree", description: "Staged, unstaged and untracked changes against HEAD", id: "worktree" },
+        { label: "Last N commits", description: "git diff HEAD~N HEAD", id: "commits" },
+        { label: "Commit range", description: "e.g. v1.2.0..HEAD or abc123...def456", id: "range" },
+        { label: "Current branch vs base", description: "Changes since the merge base with a chosen branch", id: "branch" },
+    ], { placeHolder: "Select which changes to review" });
+    if (!mode) {
+        return undefined;
+    }
+    if (mode.id === "staged") {
+        return { label: "staged changes", args: ["--cached"], newSide: "index" };
+    }
+    if (mode.id === "worktree") {
+        return { label: "working tree changes", args: ["HEAD"], newSide: "worktree", includeUntracked: true };
+    }
+    if (mode.id === "commits") {
+        const count = await vscode.window.showInputBox({
+            prompt: "Number of commits to review",
+            value: "1",
+            validateInput: (value) => /^[1-9]\d*$/.test(value.trim()) ? undefined : "Enter a positive whole number",
+        });
+        return count ? { label: `last ${count.trim()} commit(s)`, args: [`HEAD~${count.trim()}`, "HEAD"], newSide: "HEAD" } : undefined;
+    }
+    if (mode.id === "range") {
+        const range = await vscode.window.showInputBox({ prompt: "Commit range to review", placeHolder: "main..HEAD", validateInput: validateRevision });
+        if (!range) {
+            return undefined;
+        }
+        return diffTargetFromRange(range);
+    }
+    const base = await pickBaseBranch(root);
+    return base ? { label: `current branch vs ${base}`, args: [`${base}...HEAD`], newSide: "HEAD" } : undefined;
+};
+
+// The top level of the repository a command runs in: the Source Control view's repository when
+// invoked from there, otherwise the only workspace folder or one the user picks.
+const pickRepositoryRoot = async (sourceControl?: vscode.SourceControl): Promise<string | undefined> => {
+    const folders = vscode.workspace.workspaceFolders;
+    const folderUri = sourceControl?.rootUri ?? (folders && folders.length > 1
+        ? (await vscode.window.showWorkspaceFolderPick({ placeHolder: "Select the repository" }))?.uri
+        : folders?.[0]?.uri);
+    return folderUri ? (await runGit(["rev-parse", "--show-toplevel"], folderUri.fsPath)).trim() : undefined;
+};
+
+// The parts of the built-in Git extension's repository API used for commit messages.
+interface GitRepository {
+    inputBox: { value: string };
+    commit(message: string): Promise<void>;
+}
+
+const getGitRepository = async (uri: vscode.Uri): Promise<GitRepository | undefined> => {
+    const extension = vscode.extensions.getExtension("vscode.git");
+    const git = (extension?.isActive ? extension.exports : await extension?.activate())?.getAPI(1);
+    return git?.getRepository(uri) ?? undefined;
+};
+
+// Diagnostics
+const toDiagnosticSeverity = (severity: Severity): vscode.DiagnosticSeverity =>
+    severity === Severity.High
+        ? vscode.DiagnosticSeverity.Error
+        : severity === Severity.Medium
+            ? vscode.DiagnosticSeverity.Warning
+            : vscode.DiagnosticSeverity.Information;
+
+// Models regularly cite lines past the end of the file, so ranges are clamped to the document.
+const createDiagnostics = (issues: Issue[], document: vscode.TextDocument): vscode.Diagnostic[] =>
+    issues.map((issue) => {
+        const lastLine = Math.max(0, document.lineCount - 1);
+        const startLine = Math.min(Math.max(0, issue.line - 1), lastLine);
+        const endLine = Math.min(Math.max(startLine, (issue.endLine ?? issue.line) - 1), lastLine);
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length),
+            issue.message,
+            toDiagnosticSeverity(issue.severity)
+        );
+        diagnostic.source = "LLMCoderAgent";
+        if (issue.category) {
+            diagnostic.code = issue.category;
+        }
+        return diagnostic;
+    });
+
+// SARIF paths are relative to the root, which the log records as its SRCROOT.
+const toSarifFile = (review: FileReview, root: vscode.Uri): SarifFileResult => ({
+    path: relative(root.fsPath, review.uri.fsPath),
+    issues: review.issues ?? [],
+    content: review.content,
+    hunks: review.hunks,
+});
+
+const REPORT_FORMATS: Array<vscode.QuickPickItem & { format: ReportFormat }> = [
+    { label: "HTML", description: "Standalone page", format: "html" },
+    { label: "Markdown", format: "markdown" },
+    { label: "JSON", format: "json" },
+];
+
+// Reports are written to the report folder under a timestamped name rather than through a save
+// dialog, so runs accumulate where they can be compared.
+const saveReviewReport = async (report: ReviewReport, config: Config, root: vscode.Uri): Promise<void> => {
+    const picked = await vscode.window.showQuickPick(REPORT_FORMATS, { placeHolder: "Save the review report as" });
+    if (!picked) {
+        return;
+    }
+    const folder = isAbsolute(config.reportFolder) ? vscode.Uri.file(config.reportFolder) : vscode.Uri.joinPath(root, config.reportFolder);
+    await vscode.workspace.fs.createDirectory(folder);
+    const target = vscode.Uri.joinPath(folder, reportFileName(report, picked.format));
+    await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(renderReport(report, picked.format)));
+    log(`Saved review report to ${target.fsPath}`);
+    const choice = await vscode.window.showInformationMessage(`Saved review report to ${vscode.workspace.asRelativePath(target)}`, "Open");
+    if (choice === "Open") {
+        if (picked.format === "html") {
+            await vscode.env.openExternal(target);
+        } else {
+            await vscode.window.showTextDocument(target);
+        }
+    }
+};
+
+const exportSarif = async (files: SarifFileResult[], root: vscode.Uri, context: vscode.ExtensionContext): Promise<void> => {
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(root, "llmcoderagent.sarif"),
+        filters: { SARIF: ["sarif", "json"] },
+    });
+    if (!target) {
+        return;
+    }
+    const sarif = toSarif(files, { root: root.fsPath, toolVersion: context.extension.packageJSON.version });
+    await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(JSON.stringify(sarif, null, 2)));
+    const count = files.reduce((total, file) => total + file.issues.length, 0);
+    vscode.window.showInformationMessage(`Exported ${count} findings to ${basename(target.fsPath)}`);
+};
+
+const hasSuggestedChanges = (review: FileReview): boolean =>
+    Boolean(review.hunks?.length || review.replacementContent !== undefined);
+
+// Applies a review's hunks to the file as it is now, reporting any hunk that no longer matches.
+const applyReviewChanges = async (review: FileReview, config: Config): Promise<boolean> => {
+    const document = await vscode.workspace.openTextDocument(review.uri);
+    let newContent: string;
+    if (review.hunks?.length) {
+        const result = applyHunks(document.getText(), review.hunks);
+        if (result.failed.length) {
+            for (const { hunk, reason } of result.failed) {
+                log(`Skipped change for ${review.uri.fsPath}${hunk.startLine ? ` near line ${hunk.startLine}` : ""}: ${reason}\n${hunk.search}`, "ERROR");
+            }
+            vscode.window.showWarningMessage(
+                `${result.failed.length} of ${review.hunks.length} suggested changes for ${basename(review.uri.fsPath)} did not match the file and were skipped.`,
+                "Show Details"
+            ).then((choice) => {
+                if (choice === "Show Details") {
+                    OUTPUT_CHANNEL.show();
+                }
+            });
+        }
+        if (!result.applied.length) {
+            return false;
+        }
+        newContent = result.content;
+    } else if (review.replacementContent !== undefined) {
+        newContent = review.replacementContent;
+    } else {
         return false;
     }
+    return applyFileContent(review.uri, newContent, config);
 };
 
-const getGitDiff = async (config: Config): Promise<{ file: string; diff: string }[]> => {
-    try {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) return [];
-
-        const gitExtension = vscode.extensions.getExtension("vscode.git")?.exports;
-        if (!gitExtension) return [];
-
-        const git = gitExtension.getAPI(1);
-        const repository = git.getRepository(workspaceFolder.uri);
-        if (!repository) return [];
-
-        const changes = await repository.diffWithHEAD();
-        return changes
-            .filter((change: any) => shouldIncludeFile(change.uri, config))
-            .map((change: any) => ({
-                file: vscode.workspace.asRelativePath(change.uri),
-                diff: change.diff,
-            }));
-    } catch (error) {
-        log(`Error fetching Git diff: ${error instanceof Error ? error.message : "Unknown error"}`, "ERROR");
-        return [];
+// Tracks the accept/reject decision for every hunk shown in a review panel and applies the
+// accepted ones across all files as a single WorkspaceEdit.
+class ReviewChangeTracker {
+    public readonly changes: ProposedChange[] = [];
+
+    constructor(reviews: FileReview[]) {
+        reviews.forEach((review, fileIndex) => {
+            const hunks: PatchHunk[] = review.hunks?.length
+                ? review.hunks
+                : review.replacementContent !== undefined
+                    ? [{ search: review.content, replace: review.replacementContent, startLine: 1, description: "Replace the entire file" }]
+                    : [];
+            hunks.forEach((hunk, hunkIndex) => {
+                this.changes.push({ id: `${fileIndex}-${hunkIndex}`, uri: review.uri, hunk: { ...hunk }, status: "pending" });
+            });
+        });
+    }
+
+    public get(id: string): ProposedChange | undefined {
+        return this.changes.find((change) => change.id === id);
+    }
+
+    public setStatus(id: string, status: "pending" | "accepted" | "rejected"): void {
+        const change = this.get(id);
+        if (change && change.status !== "applied") {
+            change.status = status;
+            change.reason = undefined;
+        }
+    }
+
+    public edit(id: string, replace: string): void {
+        const change = this.get(id);
+        if (change && change.status !== "applied") {
+            change.hunk.replace = replace;
+            change.status = "accepted";
+            change.reason = undefined;
+        }
+    }
+
+    public acceptAll(): void {
+        this.changes.filter((change) => change.status === "pending").forEach((change) => (change.status = "accepted"));
     }
+
+    public async applyAccepted(): Promise<{ applied: number; failed: number }> {
+        const accepted = this.changes.filter((change) => change.status === "accepted");
+        const byFile = new Map<string, ProposedChange[]>();
+        for (const change of accepted) {
+            byFile.set(change.uri.toString(), [...(byFile.get(change.uri.toString()) ?? []), change]);
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        const documents: vscode.TextDocument[] = [];
+        const applied: ProposedChange[] = [];
+        for (const changes of byFile.values()) {
+            const document = await vscode.workspace.openTextDocument(changes[0].uri);
+            const result = applyHunks(document.getText(), changes.map((change) => change.hunk));
+            for (const change of changes) {
+                const failure = result.failed.find((f) => f.hunk === change.hunk);
+                if (failure) {
+                    change.status = "failed";
+                    change.reason = failure.reason;
+                } else {
+                    applied.push(change);
+                }
+            }
+            if (result.applied.length) {
+                await backupFile(document.uri);
+                edit.replace(document.uri, document.validateRange(new vscode.Range(0, 0, document.lineCount, 0)), result.content);
+                documents.push(document);
+            }
+        }
+
+        if (documents.length) {
+            if (!(await vscode.workspace.applyEdit(edit))) {
+                throw handleError("VS Code rejected the accepted changes", false);
+            }
+            await Promise.all(documents.map((document) => document.save()));
+            applied.forEach((change) => (change.status = "applied"));
+            log(`Applied ${applied.length} accepted changes across ${documents.length} files`);
+        }
+        return { applied: applied.length, failed: accepted.length - applied.length };
+    }
+}
+
+// The per-change messages shared by the review panels.
+type ChangeMessage =
+    | { command: "acceptChange" | "rejectChange" | "resetChange" | "revealChange"; id: string }
+    | { command: "editChange"; id: string; replace?: string }
+    | { command: "applyAccepted" | "applyAll" };
+
+const CHANGE_COMMANDS = new Set(["acceptChange", "rejectChange", "resetChange", "revealChange", "editChange", "applyAccepted", "applyAll"]);
+
+const isChangeMessage = (message: { command?: unknown }): message is ChangeMessage =>
+    typeof message.command === "string" && CHANGE_COMMANDS.has(message.command);
+
+const handleChangeMessage = async (panel: vscode.WebviewPanel, tracker: ReviewChangeTracker, message: ChangeMessage): Promise<void> => {
+    if (message.command === "acceptChange") {
+        tracker.setStatus(message.id, "accepted");
+    } else if (message.command === "rejectChange") {
+        tracker.setStatus(message.id, "rejected");
+    } else if (message.command === "resetChange") {
+        tracker.setStatus(message.id, "pending");
+    } else if (message.command === "editChange") {
+        tracker.edit(message.id, message.replace ?? "");
+    } else if (message.command === "revealChange") {
+        const change = tracker.get(message.id);
+        if (change) {
+            const editor = await vscode.window.showTextDocument(change.uri, { viewColumn: vscode.ViewColumn.One });
+            const line = Math.max(0, (change.hunk.startLine ?? 1) - 1);
+            editor.revealRange(new vscode.Range(line, 0, line, 0), vscode.TextEditorRevealType.InCenter);
+        }
+        return;
+    } else if (message.command === "applyAccepted" || message.command === "applyAll") {
+        if (message.command === "applyAll") {
+            tracker.acceptAll();
+        }
+        const { applied, failed } = await tracker.applyAccepted();
+        if (failed) {
+            vscode.window.showWarningMessage(`Applied ${applied} changes; ${failed} no longer matched the file and were skipped.`);
+        } else {
+            vscode.window.showInformationMessage(applied ? `Applied ${applied} accepted changes.` : "No accepted changes to apply.");
+        }
+    }
+    panel.webview.postMessage({
+        command: "updateChanges",
+        changes: tracker.changes.map((change) => ({ id: change.id, status: change.status, reason: change.reason ?? "", diff: renderHunkDiff(change.hunk) })),
+    });
 };
 
-const reviewFile = async (uri: vscode.Uri, config: Config, projectContext?: Map<string, string>, provider?: LLMProvider): Promise<FileReview> => {
-    if (!provider) throw handleError("No LLM provider configured");
-    const content = await readFileContent(uri, config);
-    const relatedFiles = await getRelatedFiles(uri, config);
-    const relatedContent = await Promise.all(
-        relatedFiles.map(async (file) => {
-            const fileUri = vscode.Uri.file(join(vscode.workspace.workspaceFolders![0].uri.fsPath, file));
-            return `**Related File: ${file}**\n\`\`\`\n${await readFileContent(fileUri, config)}\n\`\`\``;
-        })
-    );
+// Review Cache
+const REVIEW_CACHE_DIRECTORY = "review-cache";
+const MAX_REVIEW_CACHE_ENTRIES = 1000;
+
+// Finished reviews in the extension's global storage, one JSON file per entry, so unchanged files
+// are not sent again. Entries are keyed by reviewCacheKey.
+class ReviewCache {
+    private readonly directory: vscode.Uri;
+
+    constructor(storageUri: vscode.Uri) {
+        this.directory = vscode.Uri.joinPath(storageUri, REVIEW_CACHE_DIRECTORY);
+    }
 
-    const projectContextSummary = projectContext
-        ? Array.from(projectContext.entries())
-            .filter(([path]) => path !== vscode.workspace.asRelativePath(uri))
-            .map(([path, summary]) => `**${path}**: ${summary}`)
-            .join("\n")
-        : "";
+    // Entries written before severities were normalised may hold labels like "High severity".
+    async get(key: string): Promise<CachedReview | undefined> {
+        try {
+            const entry: CachedReview = JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(this.entryUri(key))));
+            entry.issues = entry.issues.map((issue) => ({ ...issue, severity: normalizeSeverity(issue.severity) ?? Severity.Low }));
+            return entry;
+        } catch {
+            return undefined;
+        }
+    }
 
-    const prompt = config.reviewPrompt.replace("{filename}", vscode.workspace.asRelativePath(uri)).replace("{content}", content);
-    const review = await getLLMResponse(prompt, config, [], provider);
+    async set(entry: CachedReview): Promise<void> {
+        try {
+            await vscode.workspace.fs.createDirectory(this.directory);
+            await vscode.workspace.fs.writeFile(this.entryUri(entry.key), new TextEncoder().encode(JSON.stringify(entry)));
+            await this.prune();
+        } catch (error) {
+            log(`Failed to cache review for ${entry.path}: ${error instanceof Error ? error.message : "Unknown error"}`, "ERROR");
+        }
+    }
 
-    let suggestedChanges: string | undefined;
-    const issues: Array<{ line: number; message: string; severity: string }> = [];
-    const changeMatch = review.match(/```[\s\S]*?```/);
-    if (changeMatch) suggestedChanges = changeMatch[0].replace(/```/g, "").trim();
+    async list(): Promise<CachedReview[]> {
+        const entries = await Promise.all((await this.entryNames()).map((name) => this.get(name.replace(/\.json$/, ""))));
+        return entries
+            .filter((entry): entry is CachedReview => entry !== undefined)
+            .sort((a, b) => b.createdAt - a.createdAt);
+    }
 
-    const issueMatches = review.matchAll(/Line (\d+): (\w+ severity) - ([^\n]+)/g);
-    for (const match of issueMatches) {
-        issues.push({ line: parseInt(match[1]), severity: match[2], message: match[3] });
+    async clear(): Promise<number> {
+        const count = (await this.entryNames()).length;
+        if (count) {
+            await vscode.workspace.fs.delete(this.directory, { recursive: true });
+        }
+        return count;
     }
 
-    const document = await vscode.workspace.openTextDocument(uri);
-    DIAGNOSTIC_COLLECTION.set(
+    private entryUri(key: string): vscode.Uri {
+        return vscode.Uri.joinPath(this.directory, `${key}.json`);
+    }
+
+    private async entryNames(): Promise<string[]> {
+        try {
+            return (await vscode.workspace.fs.readDirectory(this.directory))
+                .filter(([name, type]) => type === vscode.FileType.File && name.endsWith(".json"))
+                .map(([name]) => name);
+        } catch {
+            return [];
+        }
+    }
+
+    // Evicts the least recently written entries once the cache outgrows its limit.
+    private async prune(): Promise<void> {
+        const names = await this.entryNames();
+        if (names.length <= MAX_REVIEW_CACHE_ENTRIES) {
+            return;
+        }
+        const entries = await Promise.all(names.map(async (name) => {
+            const uri = vscode.Uri.joinPath(this.directory, name);
+            return { uri, mtime: (await vscode.workspace.fs.stat(uri)).mtime };
+        }));
+        entries.sort((a, b) => a.mtime - b.mtime);
+        await Promise.all(entries.slice(0, entries.length - MAX_REVIEW_CACHE_ENTRIES).map(({ uri }) => vscode.workspace.fs.delete(uri)));
+    }
+}
+
+// Rebuilds a review from the cache and republishes its diagnostics.
+const restoreCachedReview = async (uri: vscode.Uri, content: string, cached: CachedReview): Promise<FileReview> => {
+    if (cached.issues.length) {
+        const document = await vscode.workspace.openTextDocument(uri);
+        DIAGNOSTIC_COLLECTION.set(uri, createDiagnostics(cached.issues, document));
+    } else {
+        DIAGNOSTIC_COLLECTION.delete(uri);
+    }
+    return {
         uri,
-        issues.map((issue) => {
-            const severity = issue.severity.toLowerCase().includes("high")
-                ? vscode.DiagnosticSeverity.Error
-                : issue.severity.toLowerCase().includes("medium")
-                    ? vscode.DiagnosticSeverity.Warning
-                    : vscode.DiagnosticSeverity.Information;
-            return new vscode.Diagnostic(
-                new vscode.Range(issue.line - 1, 0, issue.line - 1, document.lineAt(issue.line - 1).text.length),
-                issue.message,
-                severity
-            );
-        })
-    );
+        content,
+        review: cached.review,
+        suggestedChanges: cached.suggestedChanges,
+        hunks: cached.hunks,
+        replacementContent: cached.replacementContent,
+        issues: cached.issues,
+        relatedFiles: cached.relatedFiles,
+        cached: true,
+        cacheKey: cached.key,
+    };
+};
+
+// Review Checkpoint
+const REVIEW_CHECKPOINT_KEY = "llmcoderagent.reviewCheckpoint";
 
-    return { uri, content, review, suggestedChanges, issues, relatedFiles };
+const getHeadCommit = (folder: vscode.WorkspaceFolder): string | undefined => {
+    try {
+        const git = vscode.extensions.getExtension("vscode.git")?.exports?.getAPI(1);
+        return git?.getRepository(folder.uri)?.state.HEAD?.commit;
+    } catch {
+        return undefined;
+    }
+};
+
+// Splits the project into files to review and files whose earlier review is carried forward.
+// Anything added or modified since the checkpoint is reviewed, committed or not. Without a
+// checkpoint every file is reviewed.
+const planIncrementalReview = async (
+    uris: vscode.Uri[],
+    checkpoint: ReviewCheckpoint | undefined,
+    cache: ReviewCache,
+    config: Config,
+    provider: LLMProvider
+): Promise<{ changed: vscode.Uri[]; carried: FileReview[]; states: Map<string, FileState> }> => {
+    const changed: vscode.Uri[] = [];
+    const carried: FileReview[] = [];
+    const states = new Map<string, FileState>();
+    for (const uri of uris) {
+        const path = vscode.workspace.asRelativePath(uri);
+        const previous = checkpoint?.files[path];
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            let content: string | undefined;
+            const { state, carriedKey } = await compareWithCheckpoint(previous, stat, async () => {
+                content = await readFileContent(uri, config);
+                return hashText(content);
+            }, reviewTemplate(config, provider).replace("{filename}", path), provider);
+            states.set(path, state);
+            const cached = carriedKey ? await cache.get(carriedKey) : undefined;
+            if (cached) {
+                carried.push(await restoreCachedReview(uri, content ?? await readFileContent(uri, config), cached));
+            } else {
+                changed.push(uri);
+            }
+        } catch (error) {
+            log(`Checkpoint comparison failed for ${path}: ${error instanceof Error ? error.message : "Unknown error"}`, "ERROR");
+            changed.push(uri);
+        }
+    }
+    return { changed, carried, states };
+};
+
+const reviewFile = async (
+    uri: vscode.Uri,
+    config: Config,
+    index?: SemanticIndex,
+    provider?: LLMProvider,
+    options: ReviewOptions = {}
+): Promise<FileReview> => {
+    if (!provider) throw handleError("No LLM provider configured");
+    const startTime = Date.now();
+    const content = await readFileContent(uri, config);
+    const filename = vscode.workspace.asRelativePath(uri);
+
+    const cacheKey = reviewCacheKey(hashText(content), reviewTemplate(config, provider).replace("{filename}", filename), provider);
+    const cached = await options.cache?.get(cacheKey);
+    if (cached) {
+        log(`Serving cached review for ${filename}`, "DEBUG");
+        options.onToken?.(cached.review);
+        return restoreCachedReview(uri, content, cached);
+    }
+
+    const related = await readRelatedContext(uri, config, provider);
+    const retrieved = await retrieveContext(index, content, config, { exclude: filename, signal: options.signal });
+    const result = await reviewContent(filename, content, config, provider, options, [...related, ...retrieved]);
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    DIAGNOSTIC_COLLECTION.set(uri, createDiagnostics(result.issues, document));
+
+    await options.cache?.set({
+        key: cacheKey,
+        path: filename,
+        provider: provider.getName(),
+        model: provider.getModel(),
+        createdAt: Date.now(),
+        ...result,
+    });
+    return { uri, content, ...result, cacheKey, durationMs: Date.now() - startTime };
 };
 
 async function* findFiles(folders: readonly vscode.WorkspaceFolder[], config: Config): AsyncGenerator<vscode.Uri> {
@@ -525,40 +977,84 @@ async function* findFiles(folders: readonly vscode.WorkspaceFolder[], config: Co
 
 const processFilesConcurrently = async <T>(
     uris: vscode.Uri[],
-    processor: (uri: vscode.Uri, config: Config, context?: Map<string, string>, provider?: LLMProvider) => Promise<T>,
+    processor: (uri: vscode.Uri, config: Config, index?: SemanticIndex, provider?: LLMProvider, options?: ReviewOptions) => Promise<T>,
     config: Config,
     panel?: vscode.WebviewPanel,
-    projectContext?: Map<string, string>,
-    provider?: LLMProvider
-): Promise<T[]> => {
+    index?: SemanticIndex,
+    provider?: LLMProvider,
+    options: ReviewOptions = {}
+): Promise<{ results: T[]; failures: ReviewFailure[] }> => {
+    const { signal } = options;
     const results: T[] = [];
+    const failures: ReviewFailure[] = [];
     const queue = uris.slice();
     let processed = 0;
-    let errors = 0;
-    const startTime = Date.now();
 
     await Promise.all(
         Array(Math.min(config.reviewBatchSize, uris.length))
             .fill(0)
             .map(async () => {
-                while (queue.length) {
+                while (queue.length && !signal?.aborted) {
                     const uri = queue.shift()!;
                     try {
-                        results.push(await processor(uri, config, projectContext, provider));
+                        results.push(await processor(uri, config, index, provider, options));
                         processed++;
-                        if (panel) panel.webview.html = getReviewWebviewHtml(`Reviewing... ${processed}/${uris.length} files processed (${errors} errors)`);
+                        if (panel) {
+                            panel.webview.html = getReviewWebviewHtml(`Reviewing... ${processed}/${uris.length} files processed (${failures.length} errors)`);
+                        }
                     } catch (error) {
-                        errors++;
-                        log(`Error processing ${uri.fsPath}: ${error instanceof Error ? error.message : "Unknown error"}`, "ERROR");
+                        if (isCancellation(error)) {
+                            break;
+                        }
+                        const message = error instanceof Error ? error.message : "Unknown error";
+                        failures.push({ uri, error: message });
+                        log(`Error processing ${uri.fsPath}: ${message}`, "ERROR");
                     }
                 }
             })
     );
 
-    return results;
+    if (signal?.aborted) {
+        log(`Processing cancelled with ${queue.length} files still queued`, "INFO");
+    }
+    return { results, failures };
 };
 
 // Webview Utilities
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+const renderHunkDiff = (hunk: PatchHunk): string =>
+    diffLines(trimBlankEdges(splitLines(hunk.search)), trimBlankEdges(splitLines(hunk.replace)))
+        .map(({ type, text }) => `<span class="diff-${type === "+" ? "add" : type === "-" ? "del" : "ctx"}">${type} ${escapeHtml(text)}</span>`)
+        .join("\n");
+
+const renderProposedChanges = (changes: ProposedChange[]): string => `
+    <div class="changes">
+      <h3>Proposed Changes (${changes.length})</h3>
+      ${changes.map((change) => `
+      <div class="change" data-id="${change.id}" data-status="${change.status}">
+        <div class="change-header">
+          <a href="#" data-action="revealChange">${escapeHtml(vscode.workspace.asRelativePath(change.uri))}${change.hunk.startLine ? `:${change.hunk.startLine}` : ""}</a>
+          <span class="change-status">${change.status}</span>
+        </div>
+        ${change.hunk.description ? `<p class="change-description">${escapeHtml(change.hunk.description)}</p>` : ""}
+        <pre class="change-diff">${renderHunkDiff(change.hunk)}</pre>
+        <div class="change-actions">
+          <button class="button" data-action="acceptChange">Accept</button>
+          <button class="button" data-action="rejectChange">Reject</button>
+          <button class="button" data-action="editChange">Edit</button>
+          <button class="button" data-action="resetChange">Undo</button>
+        </div>
+        <div class="change-editor" hidden>
+          <textarea rows="${Math.min(20, splitLines(change.hunk.replace).length + 1)}">${escapeHtml(change.hunk.replace)}</textarea>
+          <button class="button" data-action="saveEdit">Save &amp; Accept</button>
+          <button class="button" data-action="cancelEdit">Cancel</button>
+        </div>
+        <p class="change-reason">${escapeHtml(change.reason ?? "")}</p>
+      </div>`).join("")}
+    </div>`;
+
 const getThemeStyles = (config: Config): string =>
     config.useVsCodeTheme
         ? `
@@ -588,14 +1084,20 @@ const getChatWebviewHtml = (config: Config): string => {
   <style>
     :root { ${getThemeStyles(config)} }
     body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 1rem; background-color: var(--background); color: var(--foreground); height: 100vh; display: flex; flex-direction: column; }
+    #session-bar { display: flex; gap: 0.5rem; align-items: center; margin-bottom: 0.5rem; }
+    #session-select { flex: 1; padding: 0.25rem; background-color: var(--input-bg); color: var(--foreground); border: 1px solid #ccc; border-radius: 4px; }
+    .session-button { padding: 0.25rem 0.75rem; background-color: var(--input-bg); color: var(--foreground); border: 1px solid #ccc; border-radius: 4px; cursor: pointer; }
     #chat-container { flex: 1; overflow-y: auto; padding: 1rem; background-color: var(--input-bg); border-radius: 6px; margin-bottom: 1rem; }
     .message { margin: 0.5rem 0; padding: 0.75rem; border-radius: 4px; max-width: 80%; word-wrap: break-word; }
     .user { background-color: var(--button-bg); margin-left: auto; }
     .assistant { background-color: var(--input-bg); filter: brightness(1.2); }
+    .streaming { opacity: 0.85; }
+    .notice { margin: 0.5rem 0; font-size: 0.85em; font-style: italic; opacity: 0.75; }
     #input-container { display: flex; gap: 0.5rem; align-items: center; }
     #message-input { flex: 1; padding: 0.5rem; border: 1px solid #ccc; border-radius: 4px; background-color: var(--input-bg); color: var(--foreground); font-size: 1rem; }
     #send-button { padding: 0.5rem 1rem; background-color: var(--button-bg); color: var(--foreground); border: none; border-radius: 4px; cursor: pointer; }
     #send-button:hover { background-color: var(--button-hover); }
+    #stop-button { padding: 0.5rem 1rem; background-color: #a1260d; color: var(--foreground); border: none; border-radius: 4px; cursor: pointer; }
     .suggestions { position: absolute; background-color: var(--input-bg); border: 1px solid #foreground; border-radius: 4px; max-height: 150px; overflow-y: auto; width: calc(100% - 80px); z-index: 100; }
     .suggestion-item { padding: 0.5rem; cursor: pointer; }
     .suggestion-item:hover { background-color: var(--button-bg); }
@@ -606,10 +1108,18 @@ const getChatWebviewHtml = (config: Config): string => {
 <body>
   <h2>🗨️ ${sanitizeHtml(config.webviewTitle)}</h2>
   <p style="color: var(--foreground);">Welcome to LLMCoderAgent! Type commands like 'help', 'review project', 'review file', or 'text' to get started.</p>
+  <div id="session-bar">
+    <select id="session-select" title="Chat sessions"></select>
+    <button class="session-button" data-session-action="newSession">New</button>
+    <button class="session-button" data-session-action="renameSession">Rename</button>
+    <button class="session-button" data-session-action="deleteSession">Delete</button>
+    <button class="session-button" data-session-action="exportSession">Export</button>
+  </div>
   <div id="chat-container"></div>
   <div id="input-container">
     <input id="message-input" type="text" placeholder="${sanitizeHtml(config.inputPlaceholder)}">
     <button id="send-button">Send</button>
+    <button id="stop-button" style="display: none;">Stop</button>
     <div id="suggestions" class="suggestions" style="display: none;"></div>
   </div>
   <script src="https://cdnjs.cloudflare.com/ajax/libs/prism/1.29.0/prism.min.js"></script>
@@ -621,6 +1131,8 @@ const getChatWebviewHtml = (config: Config): string => {
     const chatContainer = document.getElementById('chat-container');
     const messageInput = document.getElementById('message-input');
     const sendButton = document.getElementById('send-button');
+    const stopButton = document.getElementById('stop-button');
+    const sessionSelect = document.getElementById('session-select');
     const suggestions = document.getElementById('suggestions');
     const autoScrollEnabled = ${config.autoScroll};
     const commands = [
@@ -638,18 +1150,53 @@ const getChatWebviewHtml = (config: Config): string => {
       'clear history'
     ];
 
+    let streamingMessage = null;
+
+    function renderMessage(div, text) {
+      const sanitizedText = text.includes('<pre>') ? text : '<pre><code>' + text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;') + '</code></pre>';
+      div.innerHTML = sanitizedText;
+      Prism.highlightAll();
+      if (autoScrollEnabled) {
+        chatContainer.scrollTop = chatContainer.scrollHeight;
+      }
+    }
+
     function addMessage(text, isUser) {
       const div = document.createElement('div');
       div.className = 'message ' + (isUser ? 'user' : 'assistant');
-      const sanitizedText = text.includes('<pre>') ? text : '<pre><code>' + text.replace(/</g, '<').replace(/>/g, '>') + '</code></pre>';
-      div.innerHTML = sanitizedText;
       chatContainer.appendChild(div);
-      Prism.highlightAll();
+      renderMessage(div, text);
+    }
+
+    function startStreaming() {
+      streamingMessage = document.createElement('div');
+      streamingMessage.className = 'message assistant streaming';
+      const pre = document.createElement('pre');
+      pre.appendChild(document.createElement('code'));
+      streamingMessage.appendChild(pre);
+      chatContainer.appendChild(streamingMessage);
+    }
+
+    function appendToken(token) {
+      if (!streamingMessage) {
+        startStreaming();
+      }
+      streamingMessage.querySelector('code').textContent += token;
       if (autoScrollEnabled) {
         chatContainer.scrollTop = chatContainer.scrollHeight;
       }
     }
 
+    function endStreaming(text) {
+      if (!streamingMessage) {
+        addMessage(text, false);
+        return;
+      }
+      streamingMessage.classList.remove('streaming');
+      renderMessage(streamingMessage, text);
+      streamingMessage = null;
+    }
+
     function showSuggestions() {
       suggestions.innerHTML = '';
       const input = messageInput.value.trim().toLowerCase();
@@ -678,9 +1225,35 @@ const getChatWebviewHtml = (config: Config): string => {
         vscode.postMessage({ command: 'sendMessage', text: text });
         messageInput.value = '';
         suggestions.style.display = 'none';
+        stopButton.style.display = 'inline-block';
       }
     });
 
+    stopButton.addEventListener('click', function() {
+      vscode.postMessage({ command: 'stopGeneration' });
+    });
+
+    function renderSessions(sessions, activeId) {
+      sessionSelect.innerHTML = '';
+      sessions.forEach(function(session) {
+        const option = document.createElement('option');
+        option.value = session.id;
+        option.textContent = session.name;
+        option.selected = session.id === activeId;
+        sessionSelect.appendChild(option);
+      });
+    }
+
+    sessionSelect.addEventListener('change', function() {
+      vscode.postMessage({ command: 'switchSession', id: sessionSelect.value });
+    });
+
+    document.querySelectorAll('[data-session-action]').forEach(function(button) {
+      button.addEventListener('click', function() {
+        vscode.postMessage({ command: button.dataset.sessionAction });
+      });
+    });
+
     messageInput.addEventListener('input', showSuggestions);
 
     messageInput.addEventListener('keypress', function(e) {
@@ -694,15 +1267,39 @@ const getChatWebviewHtml = (config: Config): string => {
       const message = event.data;
       if (message.command === 'receiveMessage') {
         addMessage(message.text, false);
+      } else if (message.command === 'streamStart') {
+        startStreaming();
+      } else if (message.command === 'streamToken') {
+        appendToken(message.text);
+      } else if (message.command === 'streamEnd') {
+        endStreaming(message.text);
+      } else if (message.command === 'contextNotice') {
+        const notice = document.createElement('div');
+        notice.className = 'notice';
+        notice.textContent = message.text;
+        chatContainer.appendChild(notice);
+      } else if (message.command === 'generationDone') {
+        stopButton.style.display = 'none';
+      } else if (message.command === 'loadSession') {
+        renderSessions(message.sessions, message.activeId);
+        chatContainer.innerHTML = '';
+        streamingMessage = null;
+        message.messages.forEach(function(m) {
+          addMessage(m.content, m.role === 'user');
+        });
+      } else if (message.command === 'updateSessions') {
+        renderSessions(message.sessions, message.activeId);
       }
     });
+
+    vscode.postMessage({ command: 'ready' });
   </script>
 </body>
 </html>
 `;
 };
 
-const getReviewWebviewHtml = (content: string, metrics?: ReviewMetrics): string => {
+const getReviewWebviewHtml = (content: string, metrics?: ReviewMetrics, changes?: ProposedChange[]): string => {
     return `
 <!DOCTYPE html>
 <html lang="en">
@@ -722,12 +1319,27 @@ const getReviewWebviewHtml = (content: string, metrics?: ReviewMetrics): string
     .button:hover { background-color: var(--button-hover); }
     .metrics { margin-top: 1rem; padding: 1rem; background-color: #252526; border-radius: 6px; }
     .metrics p { margin: 0.5rem 0; }
+    .change { margin: 1rem 0; padding: 0.75rem; background-color: #252526; border-radius: 6px; border-left: 4px solid transparent; }
+    .change[data-status="accepted"] { border-left-color: #007acc; }
+    .change[data-status="applied"] { border-left-color: #28a745; opacity: 0.75; }
+    .change[data-status="rejected"] { border-left-color: #6c757d; opacity: 0.5; }
+    .change[data-status="failed"] { border-left-color: #cb2431; }
+    .change[data-status="applied"] .change-actions { display: none; }
+    .change-header { display: flex; justify-content: space-between; }
+    .change-header a { color: var(--foreground); }
+    .change-status { text-transform: uppercase; font-size: 0.8rem; }
+    .change-diff { margin: 0.5rem 0; padding: 0.5rem; }
+    .change-editor textarea { width: 100%; font-family: 'Source Code Pro', monospace; background-color: var(--input-bg); color: var(--foreground); }
+    .change-reason { color: #f48771; margin: 0; }
+    .diff-add { background-color: rgba(40, 167, 69, 0.25); display: block; }
+    .diff-del { background-color: rgba(203, 36, 49, 0.25); display: block; }
+    .diff-ctx { display: block; }
   </style>
 </head>
 <body>
   <div class="container">
     <h2>🔍 Code Review</h2>
-    <pre><code>${sanitizeHtml(content, { allowedTags: ['pre', 'code', 'b', 'i'], allowedAttributes: {} })}</code></pre>
+    <pre><code id="review-content">${sanitizeHtml(content, { allowedTags: ['pre', 'code', 'b', 'i'], allowedAttributes: {} })}</code></pre>
     ${metrics
             ? `
           <div class="metrics">
@@ -738,10 +1350,14 @@ const getReviewWebviewHtml = (content: string, metrics?: ReviewMetrics): string
           </div>`
             : ""
         }
+    ${changes?.length ? renderProposedChanges(changes) : ""}
     <div class="button-container" style="margin-top: 1rem;">
+      <button class="button apply-accepted-btn" onclick="vscode.postMessage({ command: 'applyAccepted' })">Apply Accepted Changes</button>
       <button class="button apply-all-btn" onclick="vscode.postMessage({ command: 'applyAll' })">Apply All Changes</button>
       <button class="button jump-to-issues-btn" onclick="vscode.postMessage({ command: 'jumpToIssues' })">Jump to Issues</button>
       <button class="button copy-suggestions-btn" onclick="vscode.postMessage({ command: 'copySuggestions' })">Copy Suggestions</button>
+      <button class="button export-sarif-btn" onclick="vscode.postMessage({ command: 'exportSarif' })">Export SARIF</button>
+      ${metrics ? `<button class="button export-report-btn" onclick="vscode.postMessage({ command: 'exportReport' })">Export Report</button>` : ""}
     </div>
   </div>
   <script src="https://cdnjs.cloudflare.com/ajax/libs/prism/1.29.0/prism.min.js"></script>
@@ -751,6 +1367,46 @@ const getReviewWebviewHtml = (content: string, metrics?: ReviewMetrics): string
   <script>
     const vscode = acquireVsCodeApi();
     Prism.highlightAll();
+
+    document.addEventListener('click', function(event) {
+      const target = event.target.closest('[data-action]');
+      const change = target && target.closest('.change');
+      if (!change) {
+        return;
+      }
+      event.preventDefault();
+      const id = change.dataset.id;
+      const action = target.dataset.action;
+      const editor = change.querySelector('.change-editor');
+      if (action === 'editChange') {
+        editor.hidden = false;
+      } else if (action === 'cancelEdit') {
+        editor.hidden = true;
+      } else if (action === 'saveEdit') {
+        editor.hidden = true;
+        vscode.postMessage({ command: 'editChange', id: id, replace: editor.querySelector('textarea').value });
+      } else {
+        vscode.postMessage({ command: action, id: id });
+      }
+    });
+
+    window.addEventListener('message', function(event) {
+      const message = event.data;
+      if (message.command === 'partialReview') {
+        document.getElementById('review-content').textContent = message.text;
+      } else if (message.command === 'updateChanges') {
+        message.changes.forEach(function(update) {
+          const change = document.querySelector('.change[data-id="' + update.id + '"]');
+          if (!change) {
+            return;
+          }
+          change.dataset.status = update.status;
+          change.querySelector('.change-status').textContent = update.status;
+          change.querySelector('.change-diff').innerHTML = update.diff;
+          change.querySelector('.change-reason').textContent = update.reason;
+        });
+      }
+    });
   </script>
 </body>
 </html>
@@ -805,18 +1461,152 @@ class LLMCoderCodeActionProvider implements vscode.CodeActionProvider {
                 };
                 return action;
             });
-
-        if (!range.isEmpty) {
-            const action = new vscode.CodeAction("Review Selection", vscode.CodeActionKind.QuickFix);
-            action.command = {
-                title: "Review Selection",
-                command: "llmcoderagent.reviewSelection",
-                arguments: [document.uri, range],
-            };
-            actions.push(action);
+
+        if (!range.isEmpty) {
+            const action = new vscode.CodeAction("Review Selection", vscode.CodeActionKind.QuickFix);
+            action.command = {
+                title: "Review Selection",
+                command: "llmcoderagent.reviewSelection",
+                arguments: [document.uri, range],
+            };
+            actions.push(action);
+        }
+
+        return actions;
+    }
+}
+
+// Chat Sessions
+// The session controls the chat panel sends, besides chat messages themselves.
+type SessionMessage =
+    | { command: "ready" | "newSession" | "renameSession" | "deleteSession" | "exportSession" }
+    | { command: "switchSession"; id: string };
+
+const SESSION_COMMANDS = new Set(["ready", "newSession", "renameSession", "deleteSession", "exportSession", "switchSession"]);
+
+const isSessionMessage = (message: { command?: unknown }): message is SessionMessage =>
+    typeof message.command === "string" && SESSION_COMMANDS.has(message.command);
+
+// Token Usage
+const USAGE_KEY = "llmcoderagent.usage";
+const USAGE_VIEW_DAYS = 30;
+const USAGE_TOP_FILES = 10;
+
+const usageTable = (heading: string, rows: Array<{ key: string; totals: UsageTotals }>, showCost: boolean): string => `
+  <h3>${escapeHtml(heading)}</h3>
+  ${rows.length
+        ? `<table><tr><th></th><th>Requests</th><th>Input tokens</th><th>Output tokens</th>${showCost ? "<th>Cost</th>" : ""}</tr>${rows.map(({ key, totals }) => `<tr>
+      <td>${escapeHtml(key)}</td>
+      <td>${totals.requests}${totals.estimatedRequests ? ` <span class="meta">(${totals.estimatedRequests} estimated)</span>` : ""}</td>
+      <td>${totals.inputTokens.toLocaleString()}</td>
+      <td>${totals.outputTokens.toLocaleString()}</td>
+      ${showCost ? `<td>${totals.cost !== undefined ? formatCost(totals.cost) : "-"}</td>` : ""}
+    </tr>`).join("")}</table>`
+        : "<p class=\"meta\">No requests yet.</p>"}`;
+
+const getUsageWebviewHtml = (entries: UsageEntry[], session: UsageTotals, config: Config): string => {
+    const today = usageDay(Date.now());
+    const since = usageDay(Date.now() - (USAGE_VIEW_DAYS - 1) * 24 * 60 * 60 * 1000);
+    const recent = entries.filter((entry) => entry.day >= since);
+    const showCost = Object.keys(config.tokenPrices).length > 0;
+    const byDay = groupUsage(recent, (entry) => entry.day, config).sort((a, b) => b.key.localeCompare(a.key));
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+  <title>LLMCoder Usage</title>
+  <style>
+    :root { ${getThemeStyles(config)} }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 1rem; background-color: var(--background); color: var(--foreground); }
+    .container { max-width: 1200px; margin: auto; }
+    h2 { color: #007acc; }
+    table { border-collapse: collapse; margin-bottom: 1rem; }
+    th, td { padding: 0.25rem 0.75rem; text-align: right; border-bottom: 1px solid #3c3c3c; }
+    th:first-child, td:first-child { text-align: left; }
+    .meta { opacity: 0.7; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h2>LLMCoder Token Usage</h2>
+    <p class="meta">Estimated counts come from providers that do not report usage, such as Flowise.${showCost ? " Costs use the tokenPrices setting." : " Set tokenPrices to see costs."}</p>
+    ${usageTable("Summary", [
+        { key: "This session", totals: session },
+        { key: "Today", totals: totalUsage(entries.filter((entry) => entry.day === today), config) },
+        { key: `Last ${USAGE_VIEW_DAYS} days`, totals: totalUsage(recent, config) },
+    ], showCost)}
+    ${usageTable("By day", byDay, showCost)}
+    ${usageTable("By command", groupUsage(recent, (entry) => entry.command, config), showCost)}
+    ${usageTable("By provider and model", groupUsage(recent, (entry) => `${entry.provider} · ${entry.model}`, config), showCost)}
+    ${usageTable(`Top ${USAGE_TOP_FILES} files`, groupUsage(recent.filter((entry) => entry.file), (entry) => entry.file!, config).slice(0, USAGE_TOP_FILES), showCost)}
+  </div>
+</body>
+</html>`;
+};
+
+// Token usage as daily totals in global state, since spend is per account rather than per
+// workspace, with this session's total in the status bar.
+class UsageTracker implements vscode.Disposable {
+    private readonly state: vscode.Memento;
+    private readonly item: vscode.StatusBarItem;
+    private readonly session: UsageRecord[] = [];
+    private warnedDay?: string;
+
+    constructor(state: vscode.Memento) {
+        this.state = state;
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+        this.item.command = "llmcoderagent.showUsage";
+        this.refresh();
+        this.item.show();
+    }
+
+    public entries(): UsageEntry[] {
+        return this.state.get<UsageEntry[]>(USAGE_KEY, []);
+    }
+
+    // Memento reads see an update at once, so concurrent requests cannot overwrite each other.
+    public record(record: UsageRecord): void {
+        this.session.push(record);
+        const entries = addUsage(this.entries(), record);
+        this.state.update(USAGE_KEY, entries).then(undefined, (error) =>
+            log(`Failed to save token usage: ${error instanceof Error ? error.message : "Unknown error"}`, "ERROR"));
+        this.refresh();
+        this.checkBudget(entries);
+    }
+
+    public show(): void {
+        const panel = vscode.window.createWebviewPanel("llmcoderagent", "LLMCoder Usage", vscode.ViewColumn.Active, {});
+        panel.webview.html = getUsageWebviewHtml(this.entries(), totalUsage(this.session, getConfig()), getConfig());
+    }
+
+    public dispose(): void {
+        this.item.dispose();
+    }
+
+    private refresh(): void {
+        const totals = totalUsage(this.session, getConfig());
+        this.item.text = `$(pulse) ${formatTokens(totals.inputTokens + totals.outputTokens)}${totals.cost !== undefined ? ` · ${formatCost(totals.cost)}` : ""}`;
+        this.item.tooltip = `LLMCoder tokens this session: ${totals.inputTokens.toLocaleString()} in, ${totals.outputTokens.toLocaleString()} out over ${totals.requests} request${totals.requests === 1 ? "" : "s"}${totals.estimatedRequests ? ` (${totals.estimatedRequests} estimated)` : ""}. Click for the usage breakdown.`;
+    }
+
+    // Warns once a day, the first time today's usage reaches a budget.
+    private checkBudget(entries: UsageEntry[]): void {
+        const today = usageDay(Date.now());
+        if (this.warnedDay === today) {
+            return;
+        }
+        const config = getConfig();
+        const warning = budgetWarning(totalUsage(entries.filter((entry) => entry.day === today), config), config);
+        if (warning) {
+            this.warnedDay = today;
+            vscode.window.showWarningMessage(warning, "Show Usage").then((choice) => {
+                if (choice) {
+                    this.show();
+                }
+            });
         }
-
-        return actions;
     }
 }
 
@@ -824,31 +1614,34 @@ class LLMCoderCodeActionProvider implements vscode.CodeActionProvider {
 class RealTimeCodeAccessManager {
     private watcher: vscode.FileSystemWatcher | null = null;
     public isRealTimeEnabled: boolean = false;
-    public projectContext: Map<string, string> = new Map();
+    public readonly index: SemanticIndex;
     private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
-    private fileCache: Map<string, string> = new Map();
     private config: Config;
     private context: vscode.ExtensionContext;
+    private readonly reviewCache: ReviewCache;
 
-    constructor(context: vscode.ExtensionContext, config: Config) {
+    constructor(context: vscode.ExtensionContext, config: Config, reviewCache: ReviewCache) {
         this.context = context;
         this.config = config;
-        this.initializeProjectContext();
+        this.reviewCache = reviewCache;
+        this.index = new SemanticIndex(config);
+        this.initializeIndex();
         this.toggleRealTime(config.realTimeDiagnostics);
     }
 
-    private async initializeProjectContext() {
+    private async initializeIndex() {
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (!workspaceFolders) return;
 
         for await (const uri of findFiles(workspaceFolders, this.config)) {
             try {
-                const content = await readFileContent(uri, this.config, this.fileCache);
-                this.projectContext.set(vscode.workspace.asRelativePath(uri), content);
+                const content = await readFileContent(uri, this.config);
+                await this.index.update(vscode.workspace.asRelativePath(uri), content);
             } catch (error) {
-                log(`Error initializing context for ${uri.fsPath}: ${error instanceof Error ? error.message : "unknown error"}`);
+                log(`Error indexing ${uri.fsPath}: ${error instanceof Error ? error.message : "unknown error"}`);
             }
         }
+        log(`Indexed ${this.index.size} chunks for retrieval`);
     }
 
     public toggleRealTime(enable: boolean) {
@@ -911,34 +1704,13 @@ class RealTimeCodeAccessManager {
 
         this.debounce(async (uri: vscode.Uri) => {
             try {
-                const content = await readFileContent(uri, this.config, this.fileCache);
-                this.projectContext.set(vscode.workspace.asRelativePath(uri), content);
+                const content = await readFileContent(uri, this.config);
+                await this.index.update(vscode.workspace.asRelativePath(uri), content);
 
                 if (this.config.realTimeDiagnostics) {
-                    const provider = await getLLMProvider(this.config, this.context);
-                    const review = await reviewFile(uri, this.config, this.projectContext, provider);
-
-                    const severityMap: { [key: string]: vscode.DiagnosticSeverity } = {
-                        high: vscode.DiagnosticSeverity.Error,
-                        medium: vscode.DiagnosticSeverity.Warning,
-                        low: vscode.DiagnosticSeverity.Information,
-                        information: vscode.DiagnosticSeverity.Information,
-                        default: vscode.DiagnosticSeverity.Information
-                    };
-
-                    const diagnostics = await Promise.all((review.issues || []).map(async (issue: Issue) => {
-                        const lines = content.split('\n');
-                        const lineIndex = Math.max(0, Math.min(issue.line - 1, lines.length - 1));
-                        const endColumn = lines[lineIndex]?.length ?? 1000;
-                        const severity = severityMap[issue.severity.toLowerCase()] ?? vscode.DiagnosticSeverity.Information;
-                        return new vscode.Diagnostic(
-                            new vscode.Range(lineIndex, 0, lineIndex, endColumn),
-                            issue.message,
-                            severity
-                        );
-                    }));
-
-                    DIAGNOSTIC_COLLECTION.set(uri, diagnostics);
+                    const provider = await getLLMProvider(this.config, this.context, "realtime");
+                    // reviewFile publishes the diagnostics for the file itself.
+                    await reviewFile(uri, this.config, this.index, provider, { cache: this.reviewCache, priority: "background", command: "realtime" });
                     vscode.window.showInformationMessage(`Real-time review updated for ${basename(uri.fsPath)}.`);
                 }
             } catch (error) {
@@ -955,8 +1727,7 @@ class RealTimeCodeAccessManager {
         }
 
         const relativePath = vscode.workspace.asRelativePath(uri);
-        this.projectContext.delete(relativePath);
-        this.fileCache.delete(uri.fsPath);
+        this.index.remove(relativePath);
         DIAGNOSTIC_COLLECTION.delete(uri);
         log(`Removed context for deleted file: ${uri.fsPath}`, "INFO");
     }
@@ -965,87 +1736,191 @@ class RealTimeCodeAccessManager {
         this.watcher?.dispose();
         this.debounceTimers.forEach((timer) => clearTimeout(timer));
         this.debounceTimers.clear();
-        this.projectContext.clear();
-        this.fileCache.clear();
+        this.index.clear();
     }
 }
 
-async function getLLMProvider(config: Config, context: vscode.ExtensionContext, maxRetries: number = 2): Promise<LLMProvider> {
+// Offers to pull a model the Ollama server does not have, streaming the pull status into a
+// progress notification. Returns whether the model is available afterwards.
+const ensureOllamaModel = async (provider: OllamaProvider, model: string): Promise<boolean> => {
+    if (await provider.hasModel(model)) {
+        return true;
+    }
+    const choice = await vscode.window.showWarningMessage(`Ollama model "${model}" is not installed.`, "Pull Model");
+    if (choice !== "Pull Model") {
+        return false;
+    }
+    try {
+        await withCancellableProgress(`LLMCoderAgent: Pulling ${model}`, (signal, progress) =>
+            provider.pullModel(model, (status, completed, total) => {
+                const percent = total ? ` ${Math.floor(((completed ?? 0) / total) * 100)}%` : "";
+                progress.report({ message: `${status}${percent}` });
+            }, signal));
+    } catch (error) {
+        if (isCancellation(error)) {
+            log(`Pull of Ollama model ${model} cancelled`);
+            return false;
+        }
+        throw error;
+    }
+    vscode.window.showInformationMessage(`Pulled Ollama model ${model}.`);
+    return true;
+};
+
+// Builds the provider a configuration selects and checks that it answers. Failures are only
+// logged; getLLMProvider reports them once the whole chain has failed. Missing credentials and
+// models are only asked for when interactive, so fallbacks never prompt mid-review.
+async function connectProvider(config: Config, context: vscode.ExtensionContext, interactive: boolean): Promise<LLMProvider> {
     const secrets = context.secrets;
+    if (config.llmProvider === "openai") {
+        let apiKey = await secrets.get("openaiApiKey");
+        if (!apiKey && interactive) {
+            apiKey = await vscode.window.showInputBox({
+                prompt: "Enter OpenAI API Key (starts with 'sk-')",
+                password: true,
+                placeHolder: "sk-XXXXXXXXXXXXXXXXXXXX",
+            });
+            if (!apiKey) {
+                throw handleError("OpenAI API key required", false);
+            }
+            await secrets.store("openaiApiKey", apiKey);
+        }
+        if (!apiKey) {
+            throw handleError("OpenAI API key not set", false);
+        }
+        const provider = new OpenAIProvider(apiKey, config.openaiModel, config);
+        if (await provider.testConnection()) {
+            return provider;
+        }
+        throw handleError("OpenAI connection test failed", false);
+    } else if (config.llmProvider === "openai-compatible") {
+        // No prompt for a missing key: local servers usually run without one.
+        const provider = createOpenAICompatibleProvider(await secrets.get("openaiCompatibleApiKey"), config);
+        if (await provider.testConnection()) {
+            return provider;
+        }
+        throw handleError(`OpenAI-compatible server at ${config.openaiCompatibleBaseUrl} did not respond. Check the base URL and API key.`, false);
+    } else if (config.llmProvider === "anthropic") {
+        let apiKey = await secrets.get("anthropicApiKey");
+        if (!apiKey && interactive) {
+            apiKey = await vscode.window.showInputBox({
+                prompt: "Enter Anthropic API Key",
+                password: true,
+                placeHolder: "sk-ant-REDACTED",
+            });
+            if (!apiKey) {
+                throw handleError("Anthropic API key required", false);
+            }
+            await secrets.store("anthropicApiKey", apiKey);
+        }
+        if (!apiKey) {
+            throw handleError("Anthropic API key not set", false);
+        }
+        const provider = new AnthropicProvider(apiKey, config);
+        if (await provider.testConnection()) {
+            return provider;
+        }
+        throw handleError(`Anthropic connection test failed at ${config.anthropicBaseUrl}`, false);
+    } else if (config.llmProvider === "ollama") {
+        const provider = new OllamaProvider(config);
+        if (await provider.testConnection()) {
+            if (!(interactive ? await ensureOllamaModel(provider, config.ollamaModel) : await provider.hasModel(config.ollamaModel))) {
+                throw handleError(`Ollama model ${config.ollamaModel} is not installed. Pull it or choose another model.`, false);
+            }
+            return provider;
+        }
+        throw handleError(`Ollama connection test failed. Ensure Ollama server is running at ${config.ollamaHost}.`, false);
+    } else {
+        const settings = vscode.workspace.getConfiguration("llmcoderagent");
+        const hasChatflow = () => Boolean(config.flowiseChatflowId || parseFlowiseUrl(config.flowiseUrl).chatflowId);
+        // Earlier versions kept the chatflow ID in the secret store as the Flowise "API token".
+        const legacyChatflowId = await secrets.get("flowiseApiToken");
+        if (legacyChatflowId) {
+            if (!hasChatflow()) {
+                await settings.update("flowiseChatflowId", legacyChatflowId, vscode.ConfigurationTarget.Global);
+                config.flowiseChatflowId = legacyChatflowId;
+            }
+            await secrets.delete("flowiseApiToken");
+        }
+        if (!hasChatflow() && interactive) {
+            const chatflowId = await vscode.window.showInputBox({
+                prompt: "Enter the Flowise chatflow ID",
+                placeHolder: "ccbfcde1-d3f3-40b2-9436-c3ba6b8a95a2",
+            });
+            if (!chatflowId) {
+                throw handleError("Flowise chatflow ID required", false);
+            }
+            await settings.update("flowiseChatflowId", chatflowId, vscode.ConfigurationTarget.Global);
+            config.flowiseChatflowId = chatflowId;
+        }
+        if (!hasChatflow()) {
+            throw handleError("Flowise chatflow ID not set", false);
+        }
+        const provider = new FlowiseProvider(await secrets.get("flowiseApiKey"), config);
+        if (await provider.testConnection()) {
+            return provider;
+        }
+        throw handleError("Flowise connection test failed", false);
+    }
+}
+
+// Resolves the provider for a command: its routed profile or the default provider, then the
+// fallback profiles in order until one connects. Later fallbacks stay available to the returned
+// provider for requests that exhaust their retries. Only the first entry may prompt, and the user
+// only hears about failures once every entry has failed.
+async function getLLMProvider(config: Config, context: vscode.ExtensionContext, route?: CommandRoute, maxRetries: number = 2): Promise<LLMProvider> {
     let attempts = 0;
 
     while (attempts < maxRetries) {
-        try {
-            if (config.llmProvider === "openai") {
-                let apiKey = await secrets.get("openaiApiKey");
-                if (!apiKey) {
-                    apiKey = await vscode.window.showInputBox({
-                        prompt: "Enter OpenAI API Key (starts with 'sk-')",
-                        password: true,
-                        placeHolder: "sk-XXXXXXXXXXXXXXXXXXXX",
-                    });
-                    if (!apiKey) {
-                        throw handleError("OpenAI API key required", false);
-                    }
-                    await secrets.store("openaiApiKey", apiKey);
-                }
-                const provider = new OpenAIProvider(apiKey, config.openaiModel, config);
-                if (await provider.testConnection()) {
-                    return provider;
-                }
-                throw handleError("OpenAI connection test failed");
-            } else if (config.llmProvider === "ollama") {
-                const provider = new OllamaProvider(config);
-                if (await provider.testConnection()) {
-                    return provider;
+        const chain = providerChain(config, route);
+        const failures: string[] = [];
+        for (const [index, entry] of chain.entries()) {
+            try {
+                const provider = await connectProvider(entry.config, context, index === 0);
+                if (index > 0) {
+                    log(`Using fallback provider ${entry.label} after ${chain.slice(0, index).map((skipped) => skipped.label).join(", ")} failed`);
                 }
-                throw handleError("Ollama connection test failed. Ensure Ollama server is running at http://localhost:11434.");
-            } else {
-                let apiToken = await secrets.get("flowiseApiToken");
-                if (!apiToken) {
-                    apiToken = await vscode.window.showInputBox({
-                        prompt: "Enter Flowise API Token (minimum 10 characters)",
-                        password: true,
-                        placeHolder: "Enter your Flowise token",
-                    });
-                    if (!apiToken) {
-                        throw handleError("Flowise API token required", false);
+                const fallbacks = chain.slice(index + 1).map((fallback) => async () => {
+                    try {
+                        return await connectProvider(fallback.config, context, false);
+                    } catch (error) {
+                        log(`Fallback provider ${fallback.label} unavailable: ${error instanceof Error ? error.message : "Unknown error"}`, "ERROR");
+                        return undefined;
                     }
-                    await secrets.store("flowiseApiToken", apiToken);
-                }
-                const provider = new FlowiseProvider(config.flowiseUrl, apiToken, config);
-                if (await provider.testConnection()) {
-                    return provider;
-                }
-                throw handleError("Flowise connection test failed");
+                });
+                return fallbacks.length ? new ProviderChain(provider, fallbacks) : provider;
+            } catch (error) {
+                failures.push(`${entry.label}: ${error instanceof Error ? error.message : "Unknown error"}`);
             }
-        } catch (error) {
-            attempts++;
-            const errorMsg = error instanceof Error ? error.message : "Unknown error";
-            log(`LLM provider setup failed (attempt ${attempts}/${maxRetries}): ${errorMsg}`, "ERROR");
-
-            if (attempts >= maxRetries) {
-                const action = await vscode.window.showWarningMessage(
-                    `Failed to configure ${config.llmProvider} provider: ${errorMsg}`,
-                    "Switch Provider",
-                    "Open Settings",
-                    "Retry"
-                );
-                if (action === "Switch Provider") {
-                    const provider = await vscode.window.showQuickPick(["flowise", "openai", "ollama"], { placeHolder: "Select an LLM provider" });
-                    if (provider) {
-                        await vscode.workspace.getConfiguration("llmcoderagent").update("llmProvider", provider, vscode.ConfigurationTarget.Global);
-                        config.llmProvider = provider;
-                        attempts = 0;
-                        continue;
-                    }
-                } else if (action === "Open Settings") {
-                    await vscode.commands.executeCommand("workbench.action.openSettings", "llmcoderagent");
-                } else if (action === "Retry") {
+        }
+
+        attempts++;
+        const errorMsg = failures.join("; ");
+        log(`LLM provider setup failed (attempt ${attempts}/${maxRetries}): ${errorMsg}`, "ERROR");
+
+        if (attempts >= maxRetries) {
+            const action = await vscode.window.showWarningMessage(
+                `Failed to configure an LLM provider. ${errorMsg}`,
+                "Switch Provider",
+                "Open Settings",
+                "Retry"
+            );
+            if (action === "Switch Provider") {
+                const provider = await vscode.window.showQuickPick(["flowise", "openai", "openai-compatible", "anthropic", "ollama"], { placeHolder: "Select an LLM provider" });
+                if (provider) {
+                    await vscode.workspace.getConfiguration("llmcoderagent").update("llmProvider", provider, vscode.ConfigurationTarget.Global);
+                    config.llmProvider = provider;
+                    // The routed profile is what failed, so the retry uses the provider just picked.
+                    route = undefined;
+                    attempts = 0;
                     continue;
                 }
-                throw handleError(`Cannot proceed without a valid LLM provider. Configure in settings.`, true);
+            } else if (action === "Open Settings") {
+                await vscode.commands.executeCommand("workbench.action.openSettings", "llmcoderagent");
+            } else if (action === "Retry") {
+                continue;
             }
+            throw handleError(`Cannot proceed without a valid LLM provider. Configure in settings.`, true);
         }
     }
     throw handleError("Unexpected error in getLLMProvider");
@@ -1053,9 +1928,29 @@ async function getLLMProvider(config: Config, context: vscode.ExtensionContext,
 
 // Extension Activation
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
+    const usageTracker = new UsageTracker(context.globalState);
+    context.subscriptions.push(usageTracker);
+    setHost({
+        log,
+        notifyError: (message, kind) => {
+            const actions = kind === "request" ? ["Check Settings", "Retry"] : ["Open Settings"];
+            vscode.window.showErrorMessage(message, ...actions).then((selection) => {
+                if (selection === "Check Settings" || selection === "Open Settings") {
+                    vscode.commands.executeCommand("workbench.action.openSettings", "llmcoderagent");
+                } else if (selection === "Retry") {
+                    vscode.commands.executeCommand("llmcoderagent.openChat");
+                }
+            });
+        },
+        reconfigure: async () => {
+            await vscode.commands.executeCommand("llmcoderagent.configureLLM");
+        },
+        recordUsage: (record) => usageTracker.record(record),
+    });
     log("LLMCoderAgent activating...");
     let config = getConfig();
-    let chatHistory: ChatMessage[] = [];
+    const chatSessions = new ChatSessionStore(context.workspaceState);
+    const reviewCache = new ReviewCache(context.globalStorageUri);
     let realTimeManager: RealTimeCodeAccessManager | null = null;
 
     try {
@@ -1063,9 +1958,15 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         if (!(await provider.testConnection())) {
             throw handleError(`${provider.getName()} connection test failed. Run 'configure llm' to update settings.`);
         }
-        realTimeManager = new RealTimeCodeAccessManager(context, config);
+        realTimeManager = new RealTimeCodeAccessManager(context, config, reviewCache);
+        const moduleConfigWatcher = vscode.workspace.createFileSystemWatcher("**/{tsconfig*.json,jsconfig.json,package.json}");
+        const clearModuleCache = () => MODULE_RESOLVER.clearCache();
 
         const subscriptions = [
+            moduleConfigWatcher,
+            moduleConfigWatcher.onDidCreate(clearModuleCache),
+            moduleConfigWatcher.onDidChange(clearModuleCache),
+            moduleConfigWatcher.onDidDelete(clearModuleCache),
             vscode.workspace.onDidChangeConfiguration((e) => {
                 if (e.affectsConfiguration("llmcoderagent")) {
                     config = getConfig();
@@ -1077,24 +1978,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
                 if (!config.realTimeDiagnostics || !shouldIncludeFile(e.document.uri, config)) return;
                 realTimeManager?.debounce(async (uri) => {
                     try {
-                        const provider = await getLLMProvider(config, context);
-                        const review = await reviewFile(uri, config, realTimeManager?.projectContext, provider);
-                        const document = await vscode.workspace.openTextDocument(uri);
-                        const diagnostics = await Promise.all(
-                            (review.issues || []).map(async (issue) => {
-                                const severity = issue.severity.toLowerCase().includes("high")
-                                    ? vscode.DiagnosticSeverity.Error
-                                    : issue.severity.toLowerCase().includes("medium")
-                                        ? vscode.DiagnosticSeverity.Warning
-                                        : vscode.DiagnosticSeverity.Information;
-                                return new vscode.Diagnostic(
-                                    new vscode.Range(issue.line - 1, 0, issue.line - 1, document.lineAt(issue.line - 1).text.length),
-                                    issue.message,
-                                    severity
-                                );
-                            })
-                        );
-                        DIAGNOSTIC_COLLECTION.set(uri, diagnostics);
+                        const provider = await getLLMProvider(config, context, "realtime");
+                        await reviewFile(uri, config, realTimeManager?.index, provider, { cache: reviewCache, priority: "background", command: "realtime" });
                     } catch (error) {
                         log(`Error updating diagnostics: ${error instanceof Error ? error.message : "Unknown error"}`, "ERROR");
                     }
@@ -1104,37 +1989,55 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             vscode.languages.registerCodeActionsProvider({ scheme: "file" }, new LLMCoderCodeActionProvider()),
             vscode.commands.registerCommand("llmcoderagent.applyQuickFix", async (uri: vscode.Uri, diagnosticIndex: number) => {
                 try {
-                    const provider = await getLLMProvider(config, context);
-                    const review = await reviewFile(uri, config, realTimeManager?.projectContext, provider);
-                    if (review.suggestedChanges) await applyFileContent(uri, review.suggestedChanges, config);
+                    const provider = await getLLMProvider(config, context, "generate");
+                    const review = await withCancellableProgress("LLMCoderAgent: Preparing quick fix", (signal) =>
+                        reviewFile(uri, config, realTimeManager?.index, provider, { signal, cache: reviewCache, command: "generate" }));
+                    if (hasSuggestedChanges(review)) {
+                        await applyReviewChanges(review, config);
+                    }
                 } catch (error) {
+                    if (isCancellation(error)) {
+                        log("Quick fix cancelled");
+                        return;
+                    }
                     handleError(`Quick fix failed: ${error instanceof Error ? error.message : "Unknown error"}`);
                 }
             }),
             vscode.commands.registerCommand("llmcoderagent.refactorFile", async (uri: vscode.Uri) => {
                 try {
-                    const provider = await getLLMProvider(config, context);
-                    const review = await reviewFile(uri, config, realTimeManager?.projectContext, provider);
-                    if (review.suggestedChanges) {
-                        await applyFileContent(uri, review.suggestedChanges, config);
+                    const provider = await getLLMProvider(config, context, "generate");
+                    const review = await withCancellableProgress(`LLMCoderAgent: Refactoring ${basename(uri.fsPath)}`, (signal) =>
+                        reviewFile(uri, config, realTimeManager?.index, provider, { signal, cache: reviewCache, command: "generate" }));
+                    if (hasSuggestedChanges(review)) {
+                        await applyReviewChanges(review, config);
                         vscode.window.showInformationMessage(`Refactored ${basename(uri.fsPath)}`);
                     } else {
                         vscode.window.showInformationMessage(`No refactoring suggestions for ${basename(uri.fsPath)}`);
                     }
                 } catch (error) {
+                    if (isCancellation(error)) {
+                        log("Refactor cancelled");
+                        return;
+                    }
                     handleError(`Refactor failed: ${error instanceof Error ? error.message : "Unknown error"}`);
                 }
             }),
             vscode.commands.registerCommand("llmcoderagent.reviewSelection", async (uri: vscode.Uri, range: vscode.Range) => {
                 try {
-                    const provider = await getLLMProvider(config, context);
+                    const provider = await getLLMProvider(config, context, "reviewFile");
                     const document = await vscode.workspace.openTextDocument(uri);
                     const selection = document.getText(range);
                     const prompt = `Review the following code selection from ${vscode.workspace.asRelativePath(uri)} (lines ${range.start.line + 1}-${range.end.line + 1}):\n\`\`\`\n${selection}\n\`\`\`\nProvide a concise review in markdown format, including suggestions for improvement.`;
-                    const review = await getLLMResponse(prompt, config, chatHistory, provider);
+                    const { history } = fitContextBudget(provider, prompt, [], (await chatSessions.active()).messages);
+                    const review = await withCancellableProgress("LLMCoderAgent: Reviewing selection", (signal) =>
+                        getLLMResponse(prompt, config, history, provider, { signal, priority: "interactive", command: "reviewFile" }));
                     const panel = vscode.window.createWebviewPanel("llmcoderagent", "Selection Review", vscode.ViewColumn.Beside, { enableScripts: true });
                     panel.webview.html = getReviewWebviewHtml(review);
                 } catch (error) {
+                    if (isCancellation(error)) {
+                        log("Selection review cancelled");
+                        return;
+                    }
                     handleError(`Selection review failed: ${error instanceof Error ? error.message : "Unknown error"}`);
                 }
             }),
@@ -1145,13 +2048,19 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
                     return;
                 }
                 try {
-                    const provider = await getLLMProvider(config, context);
+                    const provider = await getLLMProvider(config, context, "explain");
                     const selection = editor.document.getText(editor.selection) || editor.document.getText();
-                    const defaultExplainPrompt = config.explainPrompt || `Explain the following code from ${vscode.workspace.asRelativePath(editor.document.uri)}:\n\`\`\`\n${selection}\n\`\`\`\nProvide a clear and concise explanation in markdown format.`;
-                    const explanation = await getLLMResponse(defaultExplainPrompt, config, chatHistory, provider);
+                    const defaultExplainPrompt = buildExplainPrompt(config, vscode.workspace.asRelativePath(editor.document.uri), selection);
+                    const { history } = fitContextBudget(provider, defaultExplainPrompt, [], (await chatSessions.active()).messages);
+                    const explanation = await withCancellableProgress("LLMCoderAgent: Explaining code", (signal) =>
+                        getLLMResponse(defaultExplainPrompt, config, history, provider, { signal, priority: "interactive", command: "explain" }));
                     const panel = vscode.window.createWebviewPanel("llmcoderagent", "Code Explanation", vscode.ViewColumn.Beside, { enableScripts: true });
                     panel.webview.html = getReviewWebviewHtml(explanation);
                 } catch (error) {
+                    if (isCancellation(error)) {
+                        log("Code explanation cancelled");
+                        return;
+                    }
                     handleError(`Code explanation failed: ${error instanceof Error ? error.message : "Unknown error"}`);
                 }
             }),
@@ -1161,12 +2070,18 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             }),
             vscode.commands.registerCommand("llmcoderagent.generateCode", async (uri?: vscode.Uri) => {
                 try {
-                    const provider = await getLLMProvider(config, context);
+                    const provider = await getLLMProvider(config, context, "generate");
                     const input = await vscode.window.showInputBox({ prompt: "Describe the code to generate (e.g., 'Create a TypeScript function to sort an array')", placeHolder: "Type your code description here..." });
                     if (!input) return;
 
                     const defaultGeneratePrompt = config.generatePrompt || `Generate code based on the following description:\n${input}\n\nProvide the code in markdown format with a \`\`\` code block. Include comments for clarity.`;
-                    const generatedCode = await getLLMResponse(defaultGeneratePrompt, config, chatHistory, provider);
+                    const retrieved = await retrieveContext(realTimeManager?.index, input, config);
+                    const fitted = fitContextBudget(provider, defaultGeneratePrompt, retrieved, (await chatSessions.active()).messages);
+                    const prompt = fitted.parts.length
+                        ? `${defaultGeneratePrompt}\n\nExisting code from the workspace that may be relevant:\n${renderContextParts(fitted.parts)}`
+                        : defaultGeneratePrompt;
+                    const generatedCode = await withCancellableProgress("LLMCoderAgent: Generating code", (signal) =>
+                        getLLMResponse(prompt, config, fitted.history, provider, { signal, priority: "interactive", command: "generate" }));
                     const codeMatch = generatedCode.match(/```[\s\S]*?```/);
                     const code = codeMatch ? codeMatch[0].replace(/```/g, '').trim() : generatedCode;
 
@@ -1196,35 +2111,76 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
                         vscode.window.showInformationMessage("Code copied to clipboard.");
                     }
                 } catch (error) {
+                    if (isCancellation(error)) {
+                        log("Code generation cancelled");
+                        return;
+                    }
                     handleError(`Code generation failed: ${error instanceof Error ? error.message : "Unknown error"}`);
                 }
             }),
             vscode.commands.registerCommand("llmcoderagent.reviewGitDiff", async () => {
                 try {
-                    const provider = await getLLMProvider(config, context);
-                    const diffs = await getGitDiff(config);
-                    if (!diffs.length) {
-                        vscode.window.showInformationMessage("No Git changes found for review.");
+                    const root = await pickRepositoryRoot();
+                    if (!root) {
+                        return;
+                    }
+                    const target = await pickDiffTarget(root);
+                    if (!target) {
+                        return;
+                    }
+                    const provider = await getLLMProvider(config, context, "gitDiff");
+                    const files = (await getGitDiff(root, target)).filter((file) =>
+                        !file.binary && file.status !== "deleted" && file.hunks.length && shouldIncludeFile(vscode.Uri.file(join(root, file.path)), config));
+                    if (!files.length) {
+                        vscode.window.showInformationMessage(`No reviewable changes found in ${target.label}.`);
                         return;
                     }
 
                     const panel = vscode.window.createWebviewPanel("llmcoderagent", "Git Diff Review", vscode.ViewColumn.Beside, { enableScripts: true });
-                    panel.webview.html = getReviewWebviewHtml("Reviewing diff...");
+                    panel.webview.html = getReviewWebviewHtml(`Reviewing ${target.label}...`);
                     const reviews: string[] = [];
-                    for (const diff of diffs) {
-                        const prompt = `Review the following Git diff from ${diff.file}:\n\`\`\`diff\n${diff.diff}\n\`\`\`\nProvide a concise review in markdown format, highlighting potential issues and suggestions for improvement.`;
-                        const review = await getLLMResponse(prompt, config, [], provider);
-                        reviews.push(`**${diff.file}**:\n${review}\n`);
+                    const findings: SarifFileResult[] = [];
+                    const completed = await withCancellableProgress(`LLMCoderAgent: Reviewing ${target.label}`, async (signal) => {
+                        for (const file of files) {
+                            if (signal.aborted) {
+                                return false;
+                            }
+                            try {
+                                const result = await reviewDiffFile(file, config, provider, signal);
+                                reviews.push(`**${file.path}**:\n${result.review}\n`);
+                                findings.push({ path: file.path, issues: result.issues });
+                                if (await matchesWorkingTree(root, target, file.path)) {
+                                    const uri = vscode.Uri.file(join(root, file.path));
+                                    DIAGNOSTIC_COLLECTION.set(uri, createDiagnostics(result.issues, await vscode.workspace.openTextDocument(uri)));
+                                }
+                            } catch (error) {
+                                if (isCancellation(error)) {
+                                    return false;
+                                }
+                                throw error;
+                            }
+                        }
+                        return true;
+                    });
+                    if (!completed) {
+                        panel.webview.html = getReviewWebviewHtml(`Git diff review canceled after ${reviews.length} of ${files.length} files.\n\n${reviews.join("\n\n---\n\n")}`);
+                        return;
                     }
 
                     const summary = reviews.join("\n\n---\n\n");
                     panel.webview.html = getReviewWebviewHtml(summary);
-                    vscode.window.showInformationMessage(`Reviewed ${diffs.length} changed files.`);
+                    vscode.window.showInformationMessage(`Reviewed ${files.length} changed files in ${target.label}.`);
 
                     panel.webview.onDidReceiveMessage(async (message) => {
                         if (message.command === "copySuggestions") {
                             await vscode.env.clipboard.writeText(summary);
                             vscode.window.showInformationMessage("Copied review summary to clipboard");
+                        } else if (message.command === "exportSarif") {
+                            try {
+                                await exportSarif(findings, vscode.Uri.file(root), context);
+                            } catch (error) {
+                                handleError(`SARIF export failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+                            }
                         } else {
                             handleError(`Webview action unsupported: ${message.command}`);
                         }
@@ -1233,10 +2189,147 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
                     handleError(`Git diff review failed: ${error instanceof Error ? error.message : "Unknown error"}`);
                 }
             }),
+            vscode.commands.registerCommand("llmcoderagent.generateCommitMessage", async (sourceControl?: vscode.SourceControl) => {
+                log("Executing generateCommitMessage");
+                try {
+                    const root = await pickRepositoryRoot(sourceControl);
+                    if (!root) {
+                        return;
+                    }
+                    const files = await getGitDiff(root, STAGED_CHANGES);
+                    if (!files.length) {
+                        vscode.window.showInformationMessage("No staged changes. Stage files before generating a commit message.");
+                        return;
+                    }
+                    const provider = await getLLMProvider(config, context, "gitDiff");
+                    const message = await withCancellableProgress("LLMCoderAgent: Generating commit message", (signal) =>
+                        generateCommitMessage(files, config, provider, signal));
+                    const repository = await getGitRepository(vscode.Uri.file(root));
+                    if (repository) {
+                        repository.inputBox.value = message;
+                    } else {
+                        await vscode.env.clipboard.writeText(message);
+                        vscode.window.showInformationMessage("Git repository not available in Source Control; the commit message was copied to the clipboard.");
+                    }
+                } catch (error) {
+                    if (isCancellation(error)) {
+                        log("Commit message generation cancelled");
+                        return;
+                    }
+                    handleError(`Commit message generation failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+                }
+            }),
+            vscode.commands.registerCommand("llmcoderagent.commitWithGate", async (sourceControl?: vscode.SourceControl) => {
+                log("Executing commitWithGate");
+                try {
+                    const root = await pickRepositoryRoot(sourceControl);
+                    if (!root) {
+                        return;
+                    }
+                    const repository = await getGitRepository(vscode.Uri.file(root));
+                    const message = repository
+                        ? repository.inputBox.value.trim()
+                        : await vscode.window.showInputBox({ prompt: "Commit message", ignoreFocusOut: true });
+                    if (!message) {
+                        vscode.window.showWarningMessage("Enter a commit message before committing.");
+                        return;
+                    }
+                    if (!(await runGit(["diff", "--cached", "--name-only"], root)).trim()) {
+                        vscode.window.showInformationMessage("No staged changes to commit.");
+                        return;
+                    }
+                    const commit = async () => {
+                        if (repository) {
+                            await repository.commit(message);
+                            repository.inputBox.value = "";
+                        } else {
+                            await runGit(["commit", "-m", message], root);
+                        }
+                    };
+
+                    const provider = await getLLMProvider(config, context, "gitDiff");
+                    const result = await withCancellableProgress("LLMCoderAgent: Reviewing staged changes", (signal) =>
+                        runCommitGate(root, config, provider, signal));
+                    if (!result.blocking.length && !result.unverified.length) {
+                        await commit();
+                        vscode.window.showInformationMessage(`Committed: no blocking issues in ${result.reviewed} reviewed file(s).`);
+                        return;
+                    }
+
+                    for (const { path, issues } of result.blocking) {
+                        if (await matchesWorkingTree(root, STAGED_CHANGES, path)) {
+                            const uri = vscode.Uri.file(join(root, path));
+                            DIAGNOSTIC_COLLECTION.set(uri, createDiagnostics(issues, await vscode.workspace.openTextDocument(uri)));
+                        }
+                    }
+                    const count = result.blocking.reduce((total, file) => total + file.issues.length, 0);
+                    const reasons = [
+                        ...(result.blocking.length ? [`${count} issue(s) at ${config.commitGateSeverity} severity or above in ${result.blocking.length} staged file(s)`] : []),
+                        // A review that never came back as valid JSON may hide findings, so it needs a decision too.
+                        ...(result.unverified.length ? [`the review of ${result.unverified.join(", ")} could not be verified`] : []),
+                    ];
+                    log(`Commit gate blocked: ${reasons.join("; ")}`);
+                    const choice = await vscode.window.showWarningMessage(
+                        `Commit blocked: ${reasons.join("; ")}.`,
+                        "Commit Anyway",
+                        "Show Problems"
+                    );
+                    if (choice === "Commit Anyway") {
+                        await commit();
+                        log("Commit gate overridden");
+                        vscode.window.showInformationMessage("Committed despite review findings.");
+                    } else if (choice === "Show Problems") {
+                        await vscode.commands.executeCommand("workbench.actions.view.problems");
+                    }
+                } catch (error) {
+                    if (isCancellation(error)) {
+                        log("Commit gate cancelled");
+                        return;
+                    }
+                    handleError(`Gated commit failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+                }
+            }),
+            vscode.commands.registerCommand("llmcoderagent.generatePrDescription", async () => {
+                log("Executing generatePrDescription");
+                try {
+                    const root = await pickRepositoryRoot();
+                    if (!root) {
+                        return;
+                    }
+                    const base = await pickBaseBranch(root);
+                    if (!base) {
+                        return;
+                    }
+                    const [commits, files] = await Promise.all([
+                        getBranchCommits(root, base),
+                        getGitDiff(root, { label: `current branch vs ${base}`, args: [`${base}...HEAD`], newSide: "HEAD" }),
+                    ]);
+                    if (!commits.length && !files.length) {
+                        vscode.window.showInformationMessage(`The current branch has no changes compared with ${base}.`);
+                        return;
+                    }
+                    const provider = await getLLMProvider(config, context, "gitDiff");
+                    const description = await withCancellableProgress("LLMCoderAgent: Writing pull request description", (signal) =>
+                        generatePrDescription(files, commits, base, config, provider, signal));
+                    const document = await vscode.workspace.openTextDocument({ language: "markdown", content: description });
+                    await vscode.window.showTextDocument(document, vscode.ViewColumn.Beside);
+                    const choice = await vscode.window.showInformationMessage("Pull request description ready. Edit it, then copy it to the clipboard.", "Copy to Clipboard");
+                    if (choice === "Copy to Clipboard") {
+                        await vscode.env.clipboard.writeText(document.getText());
+                        vscode.window.showInformationMessage("Copied pull request description to clipboard.");
+                    }
+                } catch (error) {
+                    if (isCancellation(error)) {
+                        log("Pull request description cancelled");
+                        return;
+                    }
+                    handleError(`Pull request description failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+                }
+            }),
             vscode.commands.registerCommand("llmcoderagent.configureLLM", async () => {
                 try {
                     const secrets = context.secrets;
-                    const providerChoice = await vscode.window.showQuickPick(["flowise", "openai", "ollemba"], {
+                    const providerChoice = await vscode.window.showQuickPick(["flowise", "openai", "openai-compatible", "anthropic", "ollama"], {
                         placeHolder: "Select an LLM provider to configure",
                     });
                     if (!providerChoice) return;
@@ -1245,29 +2338,52 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
                     config.llmProvider = providerChoice;
 
                     if (providerChoice === "flowise") {
+                        const settings = vscode.workspace.getConfiguration("llmcoderagent");
                         const url = await vscode.window.showInputBox({
-                            prompt: "Enter Flowise API URL",
-                            placeHolder: config.flowiseUrl,
+                            prompt: "Enter Flowise prediction API URL",
+                            placeHolder: "http://localhost:3000/api/v1/prediction",
                             value: config.flowiseUrl,
                         });
                         if (url) {
-                            await vscode.workspace.getConfiguration("llmcoderagent").update("flowiseUrl", url, vscode.ConfigurationTarget.Global);
+                            await settings.update("flowiseUrl", url, vscode.ConfigurationTarget.Global);
                             config.flowiseUrl = url;
                         }
-                        await secrets.delete("flowiseApiToken");
-                        const token = await vscode.window.showInputBox({
-                            prompt: "Enter Flowise API Token (minimum 10 characters)",
+                        const apiKey = await vscode.window.showInputBox({
+                            prompt: "Enter the Flowise API key, or leave empty if the chatflow needs none",
                             password: true,
                         });
-                        if (token) {
-                            await secrets.store("flowiseApiToken", token);
-                            vscode.window.showInformationMessage("Flowise configuration updated. Testing connection...");
-                            const provider = new FlowiseProvider(config.flowiseUrl, token, config);
-                            if (await provider.testConnection()) {
-                                vscode.window.showInformationMessage("Flowise configuration successful!");
-                            } else {
-                                throw handleError("Flowise connection test failed. Please verify URL and token.");
-                            }
+                        if (apiKey === undefined) {
+                            return;
+                        }
+                        if (apiKey) {
+                            await secrets.store("flowiseApiKey", apiKey);
+                        } else {
+                            await secrets.delete("flowiseApiKey");
+                        }
+                        await secrets.delete("flowiseApiToken");
+
+                        // Listing chatflows needs a key with access to them; otherwise ask for the ID.
+                        const chatflows = await listFlowiseChatflows(config, apiKey).catch((error) => {
+                            log(`Could not list Flowise chatflows: ${error instanceof Error ? error.message : "Unknown error"}`, "ERROR");
+                            return [];
+                        });
+                        const chatflowId = chatflows.length
+                            ? (await vscode.window.showQuickPick(chatflows.map((flow) => ({ label: flow.name, description: flow.id, id: flow.id })), {
+                                placeHolder: "Select a chatflow",
+                            }))?.id
+                            : await vscode.window.showInputBox({ prompt: "Enter the Flowise chatflow ID", value: config.flowiseChatflowId });
+                        if (!chatflowId) {
+                            return;
+                        }
+                        await settings.update("flowiseChatflowId", chatflowId, vscode.ConfigurationTarget.Global);
+                        config.flowiseChatflowId = chatflowId;
+
+                        vscode.window.showInformationMessage("Flowise configuration updated. Testing connection...");
+                        const provider = new FlowiseProvider(apiKey, config);
+                        if (await provider.testConnection()) {
+                            vscode.window.showInformationMessage("Flowise configuration successful!");
+                        } else {
+                            throw handleError("Flowise connection test failed. Please verify the URL, chatflow and API key.");
                         }
                     } else if (providerChoice === "openai") {
                         await secrets.delete("openaiApiKey");
@@ -1285,21 +2401,105 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
                                 throw handleError("OpenAI connection test failed");
                             }
                         }
-                    } else if (providerChoice === "ollama") {
+                    } else if (providerChoice === "anthropic") {
+                        await secrets.delete("anthropicApiKey");
+                        const apiKey = await vscode.window.showInputBox({
+                            prompt: "Enter Anthropic API Key",
+                            password: true,
+                        });
                         const model = await vscode.window.showInputBox({
-                            prompt: "Enter Ollama model name (e.g., deepseek-coder:6.7b-base)",
-                            placeHolder: config.ollamaModel,
-                            value: config.ollamaModel,
+                            prompt: "Enter Anthropic model name (e.g., claude-sonnet-4-5)",
+                            placeHolder: config.anthropicModel,
+                            value: config.anthropicModel,
                         });
                         if (model) {
-                            await vscode.workspace.getConfiguration("llmcoderagent").update("ollamaModel", model, vscode.ConfigurationTarget.Global);
-                            config.ollamaModel = model;
-                            vscode.window.showInformationMessage("Ollama configuration updated. Testing connection...");
-                            const provider = new OllamaProvider(config);
+                            await vscode.workspace.getConfiguration("llmcoderagent").update("anthropicModel", model, vscode.ConfigurationTarget.Global);
+                            config.anthropicModel = model;
+                        }
+                        if (apiKey) {
+                            await secrets.store("anthropicApiKey", apiKey);
+                            vscode.window.showInformationMessage("Anthropic configuration updated. Testing connection...");
+                            const provider = new AnthropicProvider(apiKey, config);
                             if (await provider.testConnection()) {
-                                vscode.window.showInformationMessage("Ollama configuration successful!");
+                                vscode.window.showInformationMessage("Anthropic configuration successful!");
                             } else {
-                                throw handleError("Ollama connection test failed. Ensure Ollama server is running.");
+                                throw handleError(`Anthropic connection test failed. Please verify the API key, model and base URL (${config.anthropicBaseUrl}).`);
+                            }
+                        }
+                    } else if (providerChoice === "openai-compatible") {
+                        const settings = vscode.workspace.getConfiguration("llmcoderagent");
+                        const baseUrl = await vscode.window.showInputBox({
+                            prompt: "Enter the API root of the OpenAI-compatible server",
+                            placeHolder: "http://localhost:1234/v1",
+                            value: config.openaiCompatibleBaseUrl,
+                        });
+                        if (!baseUrl) {
+                            return;
+                        }
+                        await settings.update("openaiCompatibleBaseUrl", baseUrl, vscode.ConfigurationTarget.Global);
+                        config.openaiCompatibleBaseUrl = baseUrl;
+
+                        const apiKey = await vscode.window.showInputBox({
+                            prompt: "Enter the API key, or leave empty if the server needs none",
+                            password: true,
+                        });
+                        if (apiKey === undefined) {
+                            return;
+                        }
+                        if (apiKey) {
+                            await secrets.store("openaiCompatibleApiKey", apiKey);
+                        } else {
+                            await secrets.delete("openaiCompatibleApiKey");
+                        }
+
+                        // Offer the server's models when it lists them, otherwise ask for the id.
+                        const models = await createOpenAICompatibleProvider(apiKey, config).listModels().catch(() => [] as string[]);
+                        const model = models.length
+                            ? await vscode.window.showQuickPick(models, { placeHolder: "Select a model" })
+                            : await vscode.window.showInputBox({ prompt: "Enter the model id", value: config.openaiCompatibleModel });
+                        if (model) {
+                            await settings.update("openaiCompatibleModel", model, vscode.ConfigurationTarget.Global);
+                            config.openaiCompatibleModel = model;
+                        }
+                        vscode.window.showInformationMessage("OpenAI-compatible configuration updated. Testing connection...");
+                        if (await createOpenAICompatibleProvider(apiKey, config).testConnection()) {
+                            vscode.window.showInformationMessage("OpenAI-compatible configuration successful!");
+                        } else {
+                            throw handleError("OpenAI-compatible connection test failed. Please verify the base URL and API key.");
+                        }
+                    } else if (providerChoice === "ollama") {
+                        const settings = vscode.workspace.getConfiguration("llmcoderagent");
+                        const host = await vscode.window.showInputBox({
+                            prompt: "Enter the Ollama server address",
+                            placeHolder: "http://localhost:11434",
+                            value: config.ollamaHost,
+                        });
+                        if (!host) {
+                            return;
+                        }
+                        await settings.update("ollamaHost", host, vscode.ConfigurationTarget.Global);
+                        config.ollamaHost = host;
+
+                        const provider = new OllamaProvider(config);
+                        if (!(await provider.testConnection())) {
+                            throw handleError(`Ollama connection test failed. Ensure Ollama server is running at ${host}.`);
+                        }
+                        const otherModel = "$(cloud-download) Other model...";
+                        const installed = await provider.listModels();
+                        let model = await vscode.window.showQuickPick([...installed, otherModel], {
+                            placeHolder: installed.length ? "Select an installed model, or enter one to pull" : "No models installed yet; enter one to pull",
+                        });
+                        if (model === otherModel) {
+                            model = await vscode.window.showInputBox({
+                                prompt: "Enter Ollama model name (e.g., deepseek-coder:6.7b-base)",
+                                value: config.ollamaModel,
+                            });
+                        }
+                        if (model) {
+                            await settings.update("ollamaModel", model, vscode.ConfigurationTarget.Global);
+                            config.ollamaModel = model;
+                            if (await ensureOllamaModel(provider, model)) {
+                                vscode.window.showInformationMessage("Ollama configuration successful!");
                             }
                         }
                     }
@@ -1311,10 +2511,86 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
                 log("Executing openChat");
                 const panel = vscode.window.createWebviewPanel("llmcoderagentChat", config.webviewTitle, vscode.ViewColumn.Beside, { enableScripts: true, retainContextWhenHidden: true });
                 panel.webview.html = getChatWebviewHtml(config);
+                let activeRequest: AbortController | null = null;
+
+                const listSessions = () => chatSessions.list().map((session) => ({ id: session.id, name: session.name }));
+                const postSession = async () => {
+                    const active = await chatSessions.active();
+                    panel.webview.postMessage({
+                        command: "loadSession",
+                        sessions: listSessions(),
+                        activeId: active.id,
+                        messages: active.messages.map((m) => ({ role: m.role, content: m.content })),
+                    });
+                };
+
+                const handleSessionMessage = async (message: SessionMessage): Promise<void> => {
+                    if (message.command === "ready") {
+                        await postSession();
+                    } else if (message.command === "newSession") {
+                        activeRequest?.abort();
+                        await chatSessions.create();
+                        await postSession();
+                    } else if (message.command === "switchSession") {
+                        activeRequest?.abort();
+                        await chatSessions.setActive(message.id);
+                        await postSession();
+                    } else if (message.command === "renameSession") {
+                        const active = await chatSessions.active();
+                        const name = await vscode.window.showInputBox({ prompt: "Rename chat session", value: active.name });
+                        if (name?.trim()) {
+                            await chatSessions.rename(active.id, name.trim());
+                            panel.webview.postMessage({ command: "updateSessions", sessions: listSessions(), activeId: active.id });
+                        }
+                    } else if (message.command === "deleteSession") {
+                        const active = await chatSessions.active();
+                        const choice = await vscode.window.showWarningMessage(`Delete chat session "${active.name}"?`, { modal: true }, "Delete");
+                        if (choice === "Delete") {
+                            activeRequest?.abort();
+                            await chatSessions.delete(active.id);
+                            await postSession();
+                        }
+                    } else if (message.command === "exportSession") {
+                        const active = await chatSessions.active();
+                        const format = await vscode.window.showQuickPick(["Markdown", "JSON"], { placeHolder: `Export "${active.name}" as` });
+                        if (!format) {
+                            return;
+                        }
+                        const extension = format === "JSON" ? "json" : "md";
+                        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+                        const fileName = `${active.name.replace(/[^\w.-]+/g, "-")}.${extension}`;
+                        const target = await vscode.window.showSaveDialog({
+                            defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+                            filters: { [format]: [extension] },
+                        });
+                        if (target) {
+                            const exported = chatSessions.export(active, format === "JSON" ? "json" : "markdown");
+                            await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(exported));
+                            vscode.window.showInformationMessage(`Exported chat session to ${basename(target.fsPath)}`);
+                        }
+                    }
+                };
 
                 panel.webview.onDidReceiveMessage(async (message) => {
+                    if (message.command === "stopGeneration") {
+                        activeRequest?.abort();
+                        return;
+                    }
+                    if (isSessionMessage(message)) {
+                        try {
+                            await handleSessionMessage(message);
+                        } catch (error) {
+                            handleError(`Chat session action failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+                        }
+                        return;
+                    }
                     if (message.command !== "sendMessage") return;
                     const userMessage = message.text.trim().toLowerCase();
+                    activeRequest?.abort();
+                    const request = new AbortController();
+                    activeRequest = request;
+                    let partial = "";
+                    const session = await chatSessions.active();
                     try {
                         const commands: Record<string, string | null> = {
                             "help": null,
@@ -1338,7 +2614,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
                                 const helpText = `Available commands:\n${validCommands.map(cmd => `- ${cmd}`).join('\n')}\n\n**Tips**:\n- Use 'configure llm' to set up Flowise, OpenAI, or Ollama.\n- Open settings with Ctrl+, and search 'llmcoderagent' to adjust provider, URL, or other options.`;
                                 panel.webview.postMessage({ command: "receiveMessage", text: helpText });
                             } else if (userMessage === "clear history") {
-                                chatHistory = [];
+                                await chatSessions.clear(session.id);
                                 panel.webview.postMessage({ command: "receiveMessage", text: "Chat history cleared." });
                             } else if (userMessage === "review file") {
                                 let targetUri = vscode.window.activeTextEditor?.document.uri;
@@ -1358,17 +2634,17 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
                                     return;
                                 }
                                 panel.webview.postMessage({ command: "receiveMessage", text: `Reviewing: ${basename(targetUri.fsPath)}` });
-                                const provider = await getLLMProvider(config, context);
-                                const review = await reviewFile(targetUri, config, realTimeManager?.projectContext, provider);
+                                const provider = await getLLMProvider(config, context, "reviewFile");
+                                const review = await reviewFile(targetUri, config, realTimeManager?.index, provider, { signal: request.signal, cache: reviewCache, command: "reviewFile" });
                                 let content = `
-**${vscode.workspace.asRelativePath(review.uri)}**:\n${review.review}\n
+**${vscode.workspace.asRelativePath(review.uri)}**${review.cached ? " (cached)" : ""}:\n${review.review}\n
 ${review.suggestedChanges ? `**Suggested Changes**:\n\`\`\`\n${review.suggestedChanges}\n\`\`\`\n` : ""}
 ${review.relatedFiles?.length ? `**Related Files**:\n${review.relatedFiles.join(", ")}\n` : ""}
                                 `;
-                                if (review.suggestedChanges && await applyFileContent(targetUri, review.suggestedChanges, config)) {
+                                if (hasSuggestedChanges(review) && await applyReviewChanges(review, config)) {
                                     content += `\n**Status**: Changes applied successfully.\n`;
                                 }
-                                panel.webview.postMessage({ command: "receiveMessage", text: content });
+                                panel.webview.postMessage({ command: "receiveMessage", text: sanitizeHtml(content, { allowedTags: ["pre", "code", "b", "i"], allowedAttributes: {} }) });
                             } else {
                                 await vscode.commands.executeCommand(commands[userMessage]!);
                                 panel.webview.postMessage({ command: "receiveMessage", text: `Initiated ${userMessage}` });
@@ -1383,32 +2659,65 @@ ${review.relatedFiles?.length ? `**Related Files**:\n${review.relatedFiles.join(
                             return;
                         }
 
+                        const provider = await getLLMProvider(config, context, "chat");
                         const editor = vscode.window.activeTextEditor;
-                        let prompt = message.text;
+                        const parts: ContextPart[] = [];
+                        const activeFile = editor ? vscode.workspace.asRelativePath(editor.document.uri) : undefined;
                         if (editor) {
-                            const content = editor.document.getText();
-                            prompt = `User query: ${message.text}\n\nContext (file: ${basename(editor.document.uri.fsPath)}):\n\`\`\`\n${content}\n\`\`\`\nProvide a relevant response, including code examples if applicable.`;
+                            const document = editor.document;
+                            const filename = activeFile!;
+                            parts.push({ kind: "file", label: `file: ${filename}`, content: document.getText() });
+                            if (!editor.selection.isEmpty) {
+                                const { start, end } = editor.selection;
+                                parts.push({ kind: "selection", label: `selection: ${filename}, lines ${start.line + 1}-${end.line + 1}`, content: document.getText(editor.selection) });
+                            }
+                            if (document.uri.scheme === "file") {
+                                try {
+                                    parts.push(...await readRelatedContext(document.uri, config, provider));
+                                } catch (error) {
+                                    log(`Skipping related files: ${error instanceof Error ? error.message : "Unknown error"}`, "ERROR");
+                                }
+                            }
                         }
-                        const provider = await getLLMProvider(config, context);
-                        const response = await getLLMResponse(prompt, config, chatHistory, provider);
-                        chatHistory.push(
-                            { role: "user", content: message.text, timestamp: Date.now() },
-                            { role: "assistant", content: response, timestamp: Date.now() }
-                        );
-                        if (chatHistory.length > config.messageHistoryLimit) {
-                            chatHistory = chatHistory.slice(-config.messageHistoryLimit);
+                        parts.push(...await retrieveContext(realTimeManager?.index, message.text, config, { exclude: activeFile, signal: request.signal }));
+                        const buildPrompt = (included: ContextPart[]) => included.length
+                            ? `User query: ${message.text}\n\n${renderContextParts(included)}\nProvide a relevant response, including code examples if applicable.`
+                            : message.text;
+                        const fitted = fitContextBudget(provider, buildPrompt([]), parts, session.messages);
+                        if (fitted.dropped.length) {
+                            panel.webview.postMessage({ command: "contextNotice", text: describeTrimmedContext(fitted) });
                         }
-                        panel.webview.postMessage({ command: "receiveMessage", text: response });
+                        panel.webview.postMessage({ command: "streamStart" });
+                        const response = await getLLMStreamResponse(buildPrompt(fitted.parts), config, fitted.history, provider, (token) => {
+                            partial += token;
+                            panel.webview.postMessage({ command: "streamToken", text: token });
+                        }, { signal: request.signal, sessionId: session.id, priority: "interactive", command: "chat" });
+                        await chatSessions.append(session.id, [
+                            { role: "user", content: message.text, timestamp: Date.now() },
+                            { role: "assistant", content: response, timestamp: Date.now() },
+                        ], config.messageHistoryLimit);
+                        panel.webview.postMessage({ command: "streamEnd", text: response });
+                        panel.webview.postMessage({ command: "updateSessions", sessions: listSessions(), activeId: session.id });
                     } catch (error) {
+                        if (isCancellation(error)) {
+                            log("Chat request stopped by user");
+                            panel.webview.postMessage({ command: "streamEnd", text: partial ? `${partial}\n\n(stopped)` : "Generation stopped." });
+                            return;
+                        }
                         const msg = `Chat failed: ${error instanceof Error ? error.message : "Unknown error"}`;
                         log(msg, "ERROR");
-                        panel.webview.postMessage({ command: "receiveMessage", text: msg });
+                        panel.webview.postMessage({ command: "streamEnd", text: msg });
+                    } finally {
+                        if (activeRequest === request) {
+                            activeRequest = null;
+                            panel.webview.postMessage({ command: "generationDone" });
+                        }
                     }
                 });
 
                 panel.onDidDispose(() => {
-                    chatHistory = [];
-                    log("Chat panel disposed, history reset");
+                    activeRequest?.abort();
+                    log("Chat panel disposed");
                 });
             }),
             vscode.commands.registerCommand("llmcoderagent.reviewFile", async (uri?: vscode.Uri) => {
@@ -1432,26 +2741,43 @@ ${review.relatedFiles?.length ? `**Related Files**:\n${review.relatedFiles.join(
                 }
 
                 try {
-                    const provider = await getLLMProvider(config, context);
-                    const review = await reviewFile(targetUri, config, realTimeManager?.projectContext, provider);
+                    const provider = await getLLMProvider(config, context, "reviewFile");
                     const panel = vscode.window.createWebviewPanel("llmcoderagent", `Review: ${basename(targetUri.fsPath)}`, vscode.ViewColumn.Beside, { enableScripts: true });
-                    let content = `
-**${vscode.workspace.asRelativePath(review.uri)}**:\n${review.review}\n
-${review.suggestedChanges ? `**Suggested Changes**:\n\`\`\`\n${review.suggestedChanges}\n\`\`\`\n` : ""}
+                    panel.webview.html = getReviewWebviewHtml(`Reviewing ${basename(targetUri.fsPath)}...`);
+                    let partial = "";
+                    const review = await withCancellableProgress(`LLMCoderAgent: Reviewing ${basename(targetUri.fsPath)}`, async (signal) => {
+                        try {
+                            return await reviewFile(targetUri!, config, realTimeManager?.index, provider, {
+                                signal,
+                                cache: reviewCache,
+                                command: "reviewFile",
+                                onToken: (token) => {
+                                    partial += token;
+                                    panel.webview.postMessage({ command: "partialReview", text: partial });
+                                },
+                            });
+                        } catch (error) {
+                            if (isCancellation(error)) {
+                                panel.webview.html = getReviewWebviewHtml(`Review of ${basename(targetUri!.fsPath)} canceled.\n\n${partial}`);
+                            }
+                            throw error;
+                        }
+                    });
+                    const content = `
+**${vscode.workspace.asRelativePath(review.uri)}**${review.cached ? " (cached)" : ""}:\n${review.review}\n
 ${review.relatedFiles?.length ? `**Related Files**:\n${review.relatedFiles.join(", ")}\n` : ""}
                     `;
-                    if (review.suggestedChanges && await applyFileContent(targetUri, review.suggestedChanges, config)) {
-                        content += `\n**Status**: Changes applied successfully.\n`;
+                    const tracker = new ReviewChangeTracker([review]);
+                    if (config.autoApplyChanges && tracker.changes.length) {
+                        tracker.acceptAll();
+                        await tracker.applyAccepted();
                     }
-                    panel.webview.html = getReviewWebviewHtml(content);
+                    panel.webview.html = getReviewWebviewHtml(content, undefined, tracker.changes);
 
                     panel.webview.onDidReceiveMessage(async (message) => {
                         try {
-                            if (message.command === "applyAll") {
-                                if (review.suggestedChanges) {
-                                    await applyFileContent(review.uri, review.suggestedChanges, config);
-                                    panel.webview.html = getReviewWebviewHtml(`${content}\n**Status**: Changes applied successfully.`);
-                                }
+                            if (isChangeMessage(message)) {
+                                await handleChangeMessage(panel, tracker, message);
                             } else if (message.command === "jumpToIssues") {
                                 if (review.issues?.length) {
                                     const editor = await vscode.window.showTextDocument(review.uri);
@@ -1461,6 +2787,9 @@ ${review.relatedFiles?.length ? `**Related Files**:\n${review.relatedFiles.join(
                                 const suggestions = review.suggestedChanges || "No suggestions available.";
                                 await vscode.env.clipboard.writeText(suggestions);
                                 vscode.window.showInformationMessage("Copied suggestions to clipboard.");
+                            } else if (message.command === "exportSarif") {
+                                const root = vscode.workspace.getWorkspaceFolder(review.uri)?.uri ?? vscode.Uri.file(dirname(review.uri.fsPath));
+                                await exportSarif([toSarifFile(review, root)], root, context);
                             }
                         } catch (error) {
                             handleError(`Webview action failed: ${error instanceof Error ? error.message : "Unknown error"}`);
@@ -1469,6 +2798,10 @@ ${review.relatedFiles?.length ? `**Related Files**:\n${review.relatedFiles.join(
 
                     vscode.window.showInformationMessage(`Reviewed ${basename(targetUri.fsPath)}`);
                 } catch (error) {
+                    if (isCancellation(error)) {
+                        log("File review cancelled");
+                        return;
+                    }
                     handleError(`File review failed: ${error instanceof Error ? error.message : "Unknown error"}`);
                 }
             }),
@@ -1494,46 +2827,90 @@ ${review.relatedFiles?.length ? `**Related Files**:\n${review.relatedFiles.join(
                     }
 
                     let reviews: FileReview[] = [];
+                    let report: ReviewReport | undefined;
+                    let tracker = new ReviewChangeTracker([]);
                     await vscode.window.withProgress(
                         { location: vscode.ProgressLocation.Notification, title: "LLMCoderAgent: Reviewing Project", cancellable: true },
                         async (progress, token) => {
-                            progress.report({ message: `Found ${fileUris.length} files to review` });
                             const startTime = Date.now();
-                            const provider = await getLLMProvider(config, context);
-                            reviews = await processFilesConcurrently(fileUris, reviewFile, config, panel, realTimeManager?.projectContext, provider);
+                            const checkpoint = config.incrementalProjectReview
+                                ? context.workspaceState.get<ReviewCheckpoint>(REVIEW_CHECKPOINT_KEY)
+                                : undefined;
+                            if (checkpoint) {
+                                progress.report({ message: `Comparing ${fileUris.length} files with the last review` });
+                            }
+                            const provider = await getLLMProvider(config, context, "reviewProject");
+                            const plan = await planIncrementalReview(fileUris, checkpoint, reviewCache, config, provider);
+                            progress.report({ message: `Found ${plan.changed.length} files to review` });
+                            const { results: updated, failures } = await processFilesConcurrently(plan.changed, reviewFile, config, panel, realTimeManager?.index, provider, { signal: toAbortSignal(token), cache: reviewCache, command: "reviewProject" });
 
                             if (token.isCancellationRequested) {
                                 panel.webview.html = getReviewWebviewHtml("Project review canceled.");
                                 return;
                             }
 
-                            const summary = reviews
+                            const files: Record<string, FileState> = {};
+                            for (const review of [...plan.carried, ...updated]) {
+                                const path = vscode.workspace.asRelativePath(review.uri);
+                                const state = plan.states.get(path);
+                                if (state && review.cacheKey) {
+                                    files[path] = { ...state, cacheKey: review.cacheKey };
+                                }
+                            }
+                            const nextCheckpoint: ReviewCheckpoint = { commit: getHeadCommit(workspaceFolders[0]), createdAt: Date.now(), files };
+                            await context.workspaceState.update(REVIEW_CHECKPOINT_KEY, nextCheckpoint);
+
+                            reviews = [...updated, ...plan.carried].sort((a, b) =>
+                                vscode.workspace.asRelativePath(a.uri).localeCompare(vscode.workspace.asRelativePath(b.uri)));
+                            const header = checkpoint
+                                ? `Incremental review since ${new Date(checkpoint.createdAt).toLocaleString()}${checkpoint.commit ? ` (commit ${checkpoint.commit.slice(0, 7)})` : ""}: ${updated.length} changed files reviewed, ${plan.carried.length} unchanged files carried forward.\n\n`
+                                : "";
+                            const failed = failures.length
+                                ? `\n\n---\n\n**Failed**:\n${failures.map(({ uri, error }) => `${vscode.workspace.asRelativePath(uri)}: ${error}`).join("\n")}\n`
+                                : "";
+                            const summary = header + reviews
                                 .map((review) => `
-**${vscode.workspace.asRelativePath(review.uri)}**:\n${review.review}\n
-${review.suggestedChanges ? `**Suggested Changes**:\n\`\`\`\n${review.suggestedChanges}\n\`\`\`\n` : ""}
+**${vscode.workspace.asRelativePath(review.uri)}**${review.cached ? " (cached)" : ""}:\n${review.review}\n
 ${review.relatedFiles?.length ? `**Related Files**:\n${review.relatedFiles.join(", ")}\n` : ""}
                                 `)
-                                .join("\n\n---\n\n");
+                                .join("\n\n---\n\n") + failed;
 
                             const metrics: ReviewMetrics = {
                                 filesProcessed: reviews.length,
                                 timeTaken: Date.now() - startTime,
-                                errors: fileUris.length - reviews.length,
+                                errors: failures.length,
                             };
-                            panel.webview.html = getReviewWebviewHtml(summary, metrics);
-                            vscode.window.showInformationMessage(`Reviewed ${reviews.length} files.`);
+                            report = {
+                                title: `Project review: ${workspaceFolders[0].name}`,
+                                generatedAt: new Date(),
+                                durationMs: metrics.timeTaken,
+                                provider: provider.getName(),
+                                model: provider.getModel(),
+                                reviewMode: isStructuredReview(config, provider) ? "structured" : "markdown",
+                                prompt: reviewTemplate(config, provider),
+                                note: header.trim() || undefined,
+                                files: reviews.map((review) => ({
+                                    path: vscode.workspace.asRelativePath(review.uri),
+                                    review: review.review,
+                                    issues: review.issues ?? [],
+                                    durationMs: review.durationMs,
+                                    cached: review.cached,
+                                    relatedFiles: review.relatedFiles,
+                                })),
+                                failures: failures.map(({ uri, error }) => ({ path: vscode.workspace.asRelativePath(uri), error })),
+                            };
+                            tracker = new ReviewChangeTracker(reviews);
+                            panel.webview.html = getReviewWebviewHtml(summary, metrics, tracker.changes);
+                            vscode.window.showInformationMessage(checkpoint
+                                ? `Reviewed ${updated.length} changed files; carried forward ${plan.carried.length} unchanged.`
+                                : `Reviewed ${reviews.length} files.`);
                         }
                     );
 
                     panel.webview.onDidReceiveMessage(async (message) => {
                         try {
-                            if (message.command === "applyAll") {
-                                for (const review of reviews) {
-                                    if (review.suggestedChanges) {
-                                        await applyFileContent(review.uri, review.suggestedChanges, config);
-                                    }
-                                }
-                                vscode.window.showInformationMessage("Applied all suggested changes.");
+                            if (isChangeMessage(message)) {
+                                await handleChangeMessage(panel, tracker, message);
                             } else if (message.command === "jumpToIssues") {
                                 for (const review of reviews) {
                                     if (review.issues?.length) {
@@ -1549,6 +2926,13 @@ ${review.relatedFiles?.length ? `**Related Files**:\n${review.relatedFiles.join(
                                     .join("\n\n");
                                 await vscode.env.clipboard.writeText(suggestions);
                                 vscode.window.showInformationMessage("Copied suggestions to clipboard.");
+                            } else if (message.command === "exportReport") {
+                                if (report) {
+                                    await saveReviewReport(report, config, workspaceFolders[0].uri);
+                                }
+                            } else if (message.command === "exportSarif") {
+                                const root = workspaceFolders[0].uri;
+                                await exportSarif(reviews.map((review) => toSarifFile(review, root)), root, context);
                             }
                         } catch (error) {
                             handleError(`Webview action failed: ${error instanceof Error ? error.message : "Unknown error"}`);
@@ -1560,6 +2944,45 @@ ${review.relatedFiles?.length ? `**Related Files**:\n${review.relatedFiles.join(
                     handleError(msg);
                 }
             }),
+            vscode.commands.registerCommand("llmcoderagent.showReviewCache", async () => {
+                log("Executing showReviewCache");
+                const entries = await reviewCache.list();
+                if (!entries.length) {
+                    vscode.window.showInformationMessage("The review cache is empty.");
+                    return;
+                }
+                const picked = await vscode.window.showQuickPick(
+                    entries.map((entry) => ({
+                        label: entry.path,
+                        description: `${entry.provider} · ${entry.model}`,
+                        detail: `${new Date(entry.createdAt).toLocaleString()} · ${entry.issues.length} issue${entry.issues.length === 1 ? "" : "s"}${entry.hunks.length ? ` · ${entry.hunks.length} suggested change${entry.hunks.length === 1 ? "" : "s"}` : ""}`,
+                        entry,
+                    })),
+                    { placeHolder: `${entries.length} cached review${entries.length === 1 ? "" : "s"}`, matchOnDescription: true }
+                );
+                if (!picked) {
+                    return;
+                }
+                const panel = vscode.window.createWebviewPanel("llmcoderagent", `Cached Review: ${basename(picked.entry.path)}`, vscode.ViewColumn.Beside, { enableScripts: true });
+                panel.webview.html = getReviewWebviewHtml(`**${picked.entry.path}** (cached ${new Date(picked.entry.createdAt).toLocaleString()}, ${picked.entry.provider} ${picked.entry.model}):\n${picked.entry.review}`);
+            }),
+            vscode.commands.registerCommand("llmcoderagent.showUsage", () => {
+                log("Executing showUsage");
+                usageTracker.show();
+            }),
+            vscode.commands.registerCommand("llmcoderagent.clearReviewCache", async () => {
+                log("Executing clearReviewCache");
+                const choice = await vscode.window.showWarningMessage("Clear all cached reviews?", { modal: true }, "Clear");
+                if (choice !== "Clear") {
+                    return;
+                }
+                try {
+                    const count = await reviewCache.clear();
+                    vscode.window.showInformationMessage(`Cleared ${count} cached review${count === 1 ? "" : "s"}.`);
+                } catch (error) {
+                    handleError(`Failed to clear review cache: ${error instanceof Error ? error.message : "Unknown error"}`);
+                }
+            }),
         ];
 
         context.subscriptions.push(...subscriptions);
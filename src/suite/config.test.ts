@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { isExcludedDirectory, matchesFilePatterns, providerChain } from '../core/config';
+import { reviewTemplate } from '../core/review';
+import { Severity } from '../core/types';
+import { FakeProvider, configWith } from './helpers';
+
+suite('LLMCoderAgent Config Test Suite', () => {
+  test('resolves configuration and file patterns', () => {
+    const config = configWith({ llmProvider: 'openai', commitGateSeverity: 'medium' });
+    assert.strictEqual(config.llmProvider, 'openai');
+    assert.strictEqual(config.commitGateSeverity, Severity.Medium);
+    assert.strictEqual(config.maxFiles, 1000);
+    assert.ok(matchesFilePatterns('src/a.ts', config));
+    assert.ok(!matchesFilePatterns('node_modules/x/a.ts', config));
+    assert.ok(isExcludedDirectory('node_modules', config));
+    assert.ok(!isExcludedDirectory('src', config));
+  });
+
+  test('falls back to the built-in prompts when a setting is empty', () => {
+    const config = configWith({ reviewPrompt: '', structuredReviewPrompt: '', prDescriptionTemplate: '' });
+    const defaults = configWith();
+    assert.strictEqual(config.reviewPrompt, defaults.reviewPrompt);
+    assert.ok(config.reviewPrompt);
+    assert.strictEqual(config.structuredReviewPrompt, defaults.structuredReviewPrompt);
+    assert.strictEqual(config.prDescriptionTemplate, defaults.prDescriptionTemplate);
+    const template = reviewTemplate({ ...config, reviewOutputFormat: 'markdown' }, new FakeProvider('Fake', () => ''));
+    assert.match(template, /\{filename\}/);
+    assert.match(template, /\{content\}/);
+  });
+
+  test('orders routed and fallback provider profiles', () => {
+    const settings: Record<string, unknown> = {
+      llmProvider: 'openai',
+      providerProfiles: {
+        local: { provider: 'ollama', model: 'qwen2.5-coder:7b', settings: { ollamaHost: 'http://gpu:11434' } },
+        claude: { provider: 'anthropic' },
+      },
+      providerFallbacks: ['claude', 'missing', 'local'],
+      commandProviders: { realtime: 'local' },
+    };
+    const config = configWith(settings);
+    assert.deepStrictEqual(providerChain(config).map((entry) => entry.label), ['openai', 'claude', 'local']);
+    const [routed, ...fallbacks] = providerChain(config, 'realtime');
+    assert.strictEqual(routed.config.llmProvider, 'ollama');
+    assert.strictEqual(routed.config.ollamaModel, 'qwen2.5-coder:7b');
+    assert.strictEqual(routed.config.ollamaHost, 'http://gpu:11434');
+    assert.deepStrictEqual(fallbacks.map((entry) => entry.label), ['claude']);
+  });
+});
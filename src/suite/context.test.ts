@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { describeTrimmedContext, fitContextBudget, resolveContextWindow, truncateToTokens } from '../core/context';
+import { ContextPart } from '../core/types';
+import { FakeProvider, configWith } from './helpers';
+
+const numberedLines = (count: number): string => Array.from({ length: count }, (_, index) => `const line${String(index).padStart(3, '0')} = 1;`).join('\n');
+
+suite('LLMCoderAgent Context Test Suite', () => {
+  test('prefers the configured context window over the detected one', () => {
+    assert.strictEqual(resolveContextWindow(configWith(), 128_000), 128_000);
+    assert.strictEqual(resolveContextWindow(configWith({ contextWindow: 32_000 }), 128_000), 32_000);
+  });
+
+  test('truncates to whole leading lines', () => {
+    // Each line is 19 characters with its newline, so 5 estimated tokens.
+    const provider = new FakeProvider('Budget', () => '');
+    const truncated = truncateToTokens(provider, numberedLines(10), 19);
+    assert.deepStrictEqual([truncated.keptLines, truncated.totalLines], [3, 10]);
+    assert.strictEqual(truncated.content, numberedLines(3));
+  });
+
+  test('leaves context alone when it fits', () => {
+    const provider = new FakeProvider('Budget', () => '');
+    const parts: ContextPart[] = [{ kind: 'file', label: 'file: a.ts', content: numberedLines(5) }];
+    const fitted = fitContextBudget(provider, 'Review a.ts', parts);
+    assert.deepStrictEqual(fitted.parts, parts);
+    assert.deepStrictEqual(fitted.dropped, []);
+  });
+
+  test('drops retrieved chunks, then old messages, then truncates the file', () => {
+    const provider = new FakeProvider('Budget', () => '');
+    provider.contextWindow = 400;
+    const history = [
+      { role: 'user' as const, content: 'x'.repeat(200), timestamp: 1 },
+      { role: 'assistant' as const, content: 'y'.repeat(200), timestamp: 2 },
+    ];
+    const parts: ContextPart[] = [
+      { kind: 'file', label: 'file: a.ts', content: numberedLines(100) },
+      { kind: 'retrieved', label: 'retrieved: b.ts', content: 'z'.repeat(800) },
+    ];
+    const fitted = fitContextBudget(provider, 'Review a.ts', parts, history);
+    assert.deepStrictEqual(fitted.dropped.slice(0, 2), ['retrieved: b.ts (omitted)', '2 earlier messages']);
+    assert.match(fitted.dropped[2], /^file: a\.ts \(kept \d+ of 100 lines\)$/);
+    assert.deepStrictEqual(fitted.history, []);
+    assert.deepStrictEqual(fitted.parts.map((part) => part.kind), ['file']);
+    assert.ok(fitted.parts[0].content.endsWith('\n... [truncated]'));
+    const used = provider.estimateTokens('Review a.ts') + provider.estimateTokens(fitted.parts[0].content);
+    assert.ok(used <= 300, `${used} tokens do not leave room for the response`);
+    assert.match(describeTrimmedContext(fitted), /^Context trimmed to fit the model's 400-token window: retrieved: b\.ts \(omitted\); /);
+  });
+});
@@ -0,0 +1,220 @@
+import * as assert from 'assert';
+import { STAGED_CHANGES, diffTargetFromRange, generateCommitMessage, generatePrDescription, getBranchCommits, getGitDiff, isInChangedHunk, matchesWorkingTree, normalizeCommitMessage, parseUnifiedDiff, runCommitGate, validateRevision } from '../core/git';
+import { DiffFile, Severity } from '../core/types';
+import { FakeProvider, configWith, gitRepo, removeGitRepos } from './helpers';
+
+const modifiedFile = (path: string, removed: string[], added: string[]): DiffFile => ({
+  path,
+  status: 'modified',
+  binary: false,
+  hunks: [{ oldStart: 1, oldLines: removed.length, newStart: 1, newLines: added.length, lines: [...removed.map((line) => `-${line}`), ...added.map((line) => `+${line}`)] }],
+});
+
+suite('LLMCoderAgent Git Test Suite', () => {
+  teardown(removeGitRepos);
+
+  test('parses unified diffs and locates changed lines', () => {
+    const [file] = parseUnifiedDiff([
+      'diff --git a/a.ts b/a.ts',
+      '--- a/a.ts',
+      '+++ b/a.ts',
+      '@@ -1,2 +1,3 @@',
+      ' const a = 1;',
+      '--- removed',
+      '+const b = 2;',
+      '+const c = 3;',
+    ].join('\n'));
+    assert.strictEqual(file.path, 'a.ts');
+    assert.strictEqual(file.hunks[0].lines.length, 4);
+    assert.ok(isInChangedHunk(file, 2));
+    assert.ok(!isInChangedHunk(file, 10));
+  });
+
+  test('parses renamed, binary, added, deleted and quoted files', () => {
+    const files = parseUnifiedDiff([
+      'diff --git a/old.ts b/new.ts',
+      'similarity index 90%',
+      'rename from old.ts',
+      'rename to new.ts',
+      'diff --git a/logo.png b/logo.png',
+      'Binary files a/logo.png and b/logo.png differ',
+      'diff --git a/added.ts b/added.ts',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/added.ts',
+      '@@ -0,0 +1 @@',
+      '+export const added = 1;',
+      'diff --git a/gone.ts b/gone.ts',
+      'deleted file mode 100644',
+      '--- a/gone.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-export const gone = 1;',
+      'diff --git "a/my file.ts" "b/my file.ts"',
+      '--- "a/my file.ts"',
+      '+++ "b/my file.ts"',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+    ].join('\n'));
+    assert.deepStrictEqual(files.map((file) => [file.path, file.oldPath, file.status, file.binary]), [
+      ['new.ts', 'old.ts', 'renamed', false],
+      ['logo.png', 'logo.png', 'modified', true],
+      ['added.ts', 'added.ts', 'added', false],
+      ['gone.ts', 'gone.ts', 'deleted', false],
+      ['my file.ts', 'my file.ts', 'modified', false],
+    ]);
+  });
+
+  test('validates revisions and turns ranges into diff targets', () => {
+    assert.strictEqual(validateRevision('main'), undefined);
+    assert.strictEqual(validateRevision(' '), 'Enter a revision');
+    assert.ok(validateRevision('--output=x'));
+    assert.ok(validateRevision('main feature'));
+
+    assert.deepStrictEqual(diffTargetFromRange('main..feature'), { label: 'commits main..feature', args: ['main..feature'], newSide: 'feature' });
+    assert.strictEqual(diffTargetFromRange('main...').newSide, 'HEAD');
+    assert.deepStrictEqual(diffTargetFromRange(' HEAD~2 '), { label: 'changes since HEAD~2', args: ['HEAD~2'], newSide: 'worktree', includeUntracked: true });
+  });
+
+  test('diffs a revision against the working tree, untracked files included', async () => {
+    const repo = await gitRepo({ 'a.ts': 'const a = 1;\n' });
+    await repo.write('a.ts', 'const a = 2;\n');
+    await repo.write('src/b.ts', 'const b = 1;\n');
+
+    const files = await getGitDiff(repo.root, diffTargetFromRange('HEAD'));
+    assert.deepStrictEqual(files.map((file) => [file.path, file.status]), [['a.ts', 'modified'], ['src/b.ts', 'added']]);
+    assert.deepStrictEqual(files[1].hunks[0].lines, ['+const b = 1;']);
+    assert.deepStrictEqual(await getGitDiff(repo.root, STAGED_CHANGES), []);
+  });
+
+  test('only matches the working tree when the diff ends at it', async () => {
+    const repo = await gitRepo({ 'a.ts': 'const a = 1;\n' });
+    await repo.write('a.ts', 'const a = 2;\n');
+    await repo.git('add', 'a.ts');
+    assert.ok(await matchesWorkingTree(repo.root, STAGED_CHANGES, 'a.ts'));
+    assert.ok(await matchesWorkingTree(repo.root, diffTargetFromRange('HEAD'), 'a.ts'));
+
+    await repo.git('commit', '-q', '-m', 'Bump a');
+    assert.ok(await matchesWorkingTree(repo.root, diffTargetFromRange('HEAD~1..HEAD'), 'a.ts'));
+    await repo.write('a.ts', 'const a = 3;\n');
+    assert.ok(!await matchesWorkingTree(repo.root, STAGED_CHANGES, 'a.ts'));
+    assert.ok(!await matchesWorkingTree(repo.root, diffTargetFromRange('HEAD~1..HEAD'), 'a.ts'));
+    assert.ok(!await matchesWorkingTree(repo.root, diffTargetFromRange('HEAD~1..HEAD~1'), 'a.ts'));
+  });
+
+  test('strips fences and preambles from commit messages and shortens long subjects', () => {
+    assert.strictEqual(normalizeCommitMessage('```\nfix: handle empty input\n```', 72), 'fix: handle empty input');
+    assert.strictEqual(normalizeCommitMessage('Here is the commit message:\nfeat: add retries\n\nRetry 429s.', 72), 'feat: add retries\n\nRetry 429s.');
+    assert.strictEqual(normalizeCommitMessage('fix: keep the cursor in place when reformatting a document', 30), 'fix: keep the cursor in place');
+    assert.strictEqual(normalizeCommitMessage('fix: supercalifragilisticexpialidocious', 12), 'fix: superca');
+  });
+
+  test('asks for a commit message that follows the configured convention', async () => {
+    const prompts: string[] = [];
+    const provider = new FakeProvider('Fake', (prompt) => {
+      prompts.push(prompt);
+      return '```\nHere is the commit message:\nfix: use the right bound\n```';
+    });
+    const files = [modifiedFile('loop.ts', ['for (i = 0; i <= n; i++)'], ['for (i = 0; i < n; i++)'])];
+
+    assert.strictEqual(await generateCommitMessage(files, configWith(), provider), 'fix: use the right bound');
+    assert.match(prompts[0], /Conventional Commits/);
+    assert.match(prompts[0], /\+for \(i = 0; i < n; i\+\+\)/);
+
+    await generateCommitMessage(files, configWith({ commitMessageConvention: 'template', commitMessageTemplate: '[<area>] <subject>' }), provider);
+    assert.match(prompts[1], /\[<area>\] <subject>/);
+    assert.doesNotMatch(prompts[1], /Conventional Commits/);
+  });
+
+  test('summarises each file first when the staged diff does not fit the context window', async () => {
+    const prompts: string[] = [];
+    const provider = new FakeProvider('Fake', (prompt) => {
+      prompts.push(prompt);
+      return prompt.startsWith('Summarise') ? `- changed ${prompt.match(/change to (\S+) in/)?.[1]}` : 'refactor: rename settings';
+    });
+    provider.contextWindow = 1000;
+    const lines = Array.from({ length: 100 }, (_, i) => `const setting${i} = ${i};`);
+    const files = [modifiedFile('a.ts', lines, lines), modifiedFile('b.ts', lines, lines)];
+
+    assert.strictEqual(await generateCommitMessage(files, configWith(), provider), 'refactor: rename settings');
+    assert.strictEqual(prompts.length, 3);
+    assert.match(prompts[2], /- changed a\.ts/);
+    assert.match(prompts[2], /- changed b\.ts/);
+    assert.doesNotMatch(prompts[2], /setting99/);
+  });
+
+  test('lists the commits a branch adds on top of its base', async () => {
+    const repo = await gitRepo({ 'a.ts': 'const a = 1;\n' });
+    await repo.git('checkout', '-q', '-b', 'feature');
+    await repo.write('a.ts', 'const a = 2;\n');
+    await repo.git('commit', '-q', '-am', 'Bump a', '-m', 'It was off by one.');
+    await repo.write('b.ts', 'const b = 1;\n');
+    await repo.git('add', 'b.ts');
+    await repo.git('commit', '-q', '-m', 'Add b');
+
+    const commits = await getBranchCommits(repo.root, 'main');
+    assert.deepStrictEqual(commits.map((commit) => [commit.subject, commit.body]), [['Add b', ''], ['Bump a', 'It was off by one.']]);
+    assert.ok(commits.every((commit) => /^[0-9a-f]{7,}$/.test(commit.hash)));
+    assert.deepStrictEqual(await getBranchCommits(repo.root, 'feature'), []);
+  });
+
+  test('asks for a pull request description from the commits, the diff and the template', async () => {
+    const prompts: string[] = [];
+    const provider = new FakeProvider('Fake', (prompt) => {
+      prompts.push(prompt);
+      return '```markdown\n## Summary\nFixes the loop bound.\n```';
+    });
+    const files = [modifiedFile('loop.ts', ['for (i = 0; i <= n; i++)'], ['for (i = 0; i < n; i++)'])];
+    const commits = [{ hash: 'abc1234', subject: 'Fix the loop bound', body: 'It read past the end.\nFound by fuzzing.' }];
+
+    const description = await generatePrDescription(files, commits, 'main', configWith({ prDescriptionTemplate: '## Summary\n<what changed>' }), provider);
+    assert.strictEqual(description, '## Summary\nFixes the loop bound.');
+    assert.match(prompts[0], /1 commit\(s\) on top of main/);
+    assert.match(prompts[0], /- abc1234 Fix the loop bound\n {2}It read past the end\.\n {2}Found by fuzzing\./);
+    assert.match(prompts[0], /\+for \(i = 0; i < n; i\+\+\)/);
+    assert.match(prompts[0], /## Summary\n<what changed>$/);
+  });
+
+  test('blocks a commit on staged findings at or above the gate severity', async () => {
+    const lines = Array.from({ length: 12 }, (_, i) => `const value${i} = ${i};`);
+    const repo = await gitRepo({ 'a.ts': `${lines.join('\n')}\n`, 'b.ts': 'const b = 1;\n', 'gone.ts': 'const gone = 1;\n', 'notes.txt': 'draft\n' });
+    await repo.write('a.ts', `${['const value0 = -1;', ...lines.slice(1)].join('\n')}\n`);
+    await repo.write('b.ts', 'const b = 2;\n');
+    await repo.write('notes.txt', 'final\n');
+    await repo.git('rm', '-q', 'gone.ts');
+    await repo.git('add', '-A');
+    const reviewed: string[] = [];
+    const provider = new FakeProvider('Fake', (prompt) => {
+      const path = prompt.match(/changes to (\S+)\./)?.[1] ?? '';
+      reviewed.push(path);
+      return JSON.stringify({
+        summary: path,
+        issues: path === 'a.ts'
+          ? [{ startLine: 1, severity: 'high', message: 'Negative value' }, { startLine: 12, severity: 'high', message: 'Outside the change' }]
+          : [{ startLine: 1, severity: 'low', message: 'Magic number' }],
+      });
+    });
+
+    const gate = await runCommitGate(repo.root, configWith(), provider);
+    assert.deepStrictEqual(reviewed, ['a.ts', 'b.ts']);
+    assert.strictEqual(gate.reviewed, 2);
+    assert.deepStrictEqual(gate.blocking.map(({ path, issues }) => [path, issues.map((issue) => issue.message)]), [['a.ts', ['Negative value']]]);
+    assert.deepStrictEqual(gate.unverified, []);
+
+    const strict = await runCommitGate(repo.root, configWith({ commitGateSeverity: Severity.Low }), provider);
+    assert.deepStrictEqual(strict.blocking.map(({ path }) => path), ['a.ts', 'b.ts']);
+  });
+
+  test('reports files whose gate review never returns valid JSON as unverified', async () => {
+    const repo = await gitRepo({ 'a.ts': 'const a = 1;\n' });
+    await repo.write('a.ts', 'const a = 2;\n');
+    await repo.git('add', 'a.ts');
+    const provider = new FakeProvider('Fake', () => 'Line 1 looks risky: the value may overflow.');
+
+    const gate = await runCommitGate(repo.root, configWith({ reviewOutputFormat: 'markdown' }), provider);
+    assert.strictEqual(provider.calls, 2);
+    assert.deepStrictEqual(gate.blocking, []);
+    assert.deepStrictEqual(gate.unverified, ['a.ts']);
+  });
+});
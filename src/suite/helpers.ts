@@ -0,0 +1,95 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { runGit } from '../core/git';
+import { resolveConfig } from '../core/config';
+import { ChatMessage, Config, LLMProvider } from '../core/types';
+
+// A configuration with the given settings and defaults for everything else.
+export const configWith = (settings: Record<string, unknown> = {}): Config =>
+  resolveConfig(<T>(key: string) => settings[key] as T | undefined);
+
+// The error axios throws for an HTTP error response.
+export const httpError = (status: number, headers: Record<string, string> = {}): AxiosError => {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, undefined, {
+    status,
+    statusText: '',
+    headers,
+    config,
+    data: {},
+  });
+};
+
+// A provider answering from a function instead of a server. Each call gets its 1-based number, so
+// tests can fail the first few attempts and succeed afterwards.
+export class FakeProvider implements LLMProvider {
+  calls = 0;
+  contextWindow = 8192;
+  model = 'fake-model';
+
+  constructor(private readonly name: string, private readonly respond: (prompt: string, call: number) => string | Promise<string>) { }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  async getResponse(prompt: string): Promise<string> {
+    return this.respond(prompt, ++this.calls);
+  }
+
+  // Streams the response a word at a time.
+  async streamResponse(prompt: string, _history: ChatMessage[], onToken: (token: string) => void): Promise<string> {
+    const text = await this.getResponse(prompt);
+    for (const token of text.match(/\S+\s*/g) ?? []) {
+      onToken(token);
+    }
+    return text;
+  }
+
+  supportsJsonMode(): boolean {
+    return true;
+  }
+
+  getContextWindow(): number {
+    return this.contextWindow;
+  }
+
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+}
+
+const gitRepoRoots: string[] = [];
+
+// A throwaway git repository with one commit holding the given files. Suites that create them call
+// removeGitRepos when they tear down.
+export const gitRepo = async (files: Record<string, string>): Promise<{ root: string; git: (...args: string[]) => Promise<string>; write: (path: string, content: string) => Promise<void> }> => {
+  const root = await mkdtemp(join(tmpdir(), 'llmcoderagent-'));
+  gitRepoRoots.push(root);
+  const git = (...args: string[]) => runGit(['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], root);
+  const write = async (path: string, content: string) => {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), content);
+  };
+  await git('init', '-q', '-b', 'main');
+  for (const [path, content] of Object.entries(files)) {
+    await write(path, content);
+  }
+  await git('add', '-A');
+  await git('commit', '-q', '-m', 'Initial commit');
+  return { root, git, write };
+};
+
+export const removeGitRepos = async (): Promise<void> => {
+  await Promise.all(gitRepoRoots.splice(0).map((root) => rm(root, { recursive: true, force: true })));
+};
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { extractJsImports, extractPythonImports, matchPathPattern, resolvePackageExports } from '../core/imports';
+
+suite('LLMCoderAgent Imports Test Suite', () => {
+  test('extracts static, type, side-effect, dynamic and require imports once each', () => {
+    const imports = extractJsImports([
+      'import { a, b } from "./a";',
+      'import type { T } from \'./types\';',
+      'export * from "./reexport";',
+      'import "./polyfill";',
+      'const lazy = await import("./lazy");',
+      'const legacy = require("./legacy");',
+      'import { c } from "./a";',
+    ].join('\n'));
+    assert.deepStrictEqual(imports.sort(), ['./a', './lazy', './legacy', './polyfill', './reexport', './types']);
+  });
+
+  test('extracts Python from-imports and plain imports', () => {
+    const imports = extractPythonImports([
+      'from .models import (User,',
+      '    Group as G)',
+      'from pkg.util import *',
+      'import os.path as osp, sys',
+    ].join('\n'));
+    assert.deepStrictEqual(imports, [
+      { module: '.models', names: ['User', 'Group'] },
+      { module: 'pkg.util', names: [] },
+      { module: 'os.path', names: [] },
+      { module: 'sys', names: [] },
+    ]);
+  });
+
+  test('matches path patterns with and without a wildcard', () => {
+    assert.strictEqual(matchPathPattern('@app/*', '@app/utils/io'), 'utils/io');
+    assert.strictEqual(matchPathPattern('*.css', 'theme.css'), 'theme');
+    assert.strictEqual(matchPathPattern('config', 'config'), '');
+    assert.strictEqual(matchPathPattern('@app/*', '@lib/utils'), undefined);
+  });
+
+  test('resolves package exports through conditions, arrays and subpath patterns', () => {
+    assert.strictEqual(resolvePackageExports('./index.js', '.'), './index.js');
+    assert.strictEqual(resolvePackageExports({ require: './index.cjs', types: './index.d.ts' }, '.'), './index.d.ts');
+    const exports = {
+      '.': [{ import: './esm/index.js' }, './index.js'],
+      './features/*': { default: './dist/features/*.js' },
+    };
+    assert.strictEqual(resolvePackageExports(exports, '.'), './esm/index.js');
+    assert.strictEqual(resolvePackageExports(exports, './features/search'), './dist/features/search.js');
+    assert.strictEqual(resolvePackageExports(exports, './internal'), undefined);
+    assert.strictEqual(resolvePackageExports('./index.js', './internal'), undefined);
+  });
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { applyHunks, diffLines, formatHunks, locateHunkRange, parsePatchSuggestions, parseSearchReplaceBlocks } from '../core/patch';
+
+suite('LLMCoderAgent Patch Test Suite', () => {
+  test('applies search/replace hunks with different indentation', () => {
+    const result = applyHunks('function f() {\n    return 1;\n}', [{ search: 'return 1;', replace: 'return 2;' }]);
+    assert.strictEqual(result.content, 'function f() {\n    return 2;\n}');
+    assert.strictEqual(result.failed.length, 0);
+  });
+
+  test('parses SEARCH/REPLACE blocks with line hints', () => {
+    const hunks = parseSearchReplaceBlocks([
+      'Fix the bound:',
+      '<<<<<<< SEARCH (line 12)',
+      'for (let i = 0; i <= n; i++) {',
+      '=======',
+      'for (let i = 0; i < n; i++) {',
+      '>>>>>>> REPLACE',
+      '<<<<<<< SEARCH',
+      'const unused = 1;',
+      '=======',
+      '>>>>>>> REPLACE',
+    ].join('\n'));
+    assert.deepStrictEqual(hunks, [
+      { search: 'for (let i = 0; i <= n; i++) {', replace: 'for (let i = 0; i < n; i++) {', startLine: 12 },
+      { search: 'const unused = 1;', replace: '', startLine: undefined },
+    ]);
+    assert.deepStrictEqual(parseSearchReplaceBlocks(formatHunks([hunks[0]])), [hunks[0]]);
+  });
+
+  test('falls back to unified diffs and then to whole files', () => {
+    const original = 'const a = 1;\nconst b = 2;\nexport { a, b };';
+    const diff = parsePatchSuggestions('```diff\n--- a/x.ts\n+++ b/x.ts\n@@ -2,1 +2,1 @@\n-const b = 2;\n+const b = 3;\n```', original);
+    assert.deepStrictEqual(diff.hunks.map((hunk) => [hunk.search.trim(), hunk.replace.trim(), hunk.startLine]), [['const b = 2;', 'const b = 3;', 2]]);
+    assert.strictEqual(applyHunks(original, diff.hunks).content, 'const a = 1;\nconst b = 3;\nexport { a, b };');
+
+    const full = parsePatchSuggestions('```typescript\nconst a = 1;\nconst b = 5;\nexport { a, b };\n```', original);
+    assert.deepStrictEqual(full.hunks, []);
+    assert.strictEqual(full.replacementContent, 'const a = 1;\nconst b = 5;\nexport { a, b };\n');
+    // A snippet is an example, not a replacement for the file.
+    assert.strictEqual(parsePatchSuggestions('```typescript\nconst b = 5;\n```', original).replacementContent, undefined);
+  });
+
+  test('matches hunks exactly, then loosely, and reports the ones that no longer match', () => {
+    const original = 'if (a) {\r\n  run();\r\n}\r\nif (b) {\r\n  run();\r\n}';
+    const result = applyHunks(original, [
+      { search: 'run();', replace: 'stop();', startLine: 5 },
+      { search: 'if  (a)  {\n  run();\n}', replace: 'if (a) {\n  go();\n}' },
+      { search: 'missing();', replace: 'found();' },
+    ]);
+    assert.strictEqual(result.content, 'if (a) {\r\n  go();\r\n}\r\nif (b) {\r\n  stop();\r\n}');
+    assert.strictEqual(result.applied.length, 2);
+    assert.deepStrictEqual(result.failed.map((failure) => failure.reason), ['Search block does not match the current file']);
+  });
+
+  test('locates the original lines a hunk replaces', () => {
+    const original = 'function f() {\n    const x = 1;\n    return x;\n}';
+    assert.deepStrictEqual(locateHunkRange(original, { search: 'const x = 1;\nreturn x;', replace: 'return 1;' }), { startLine: 2, endLine: 3, text: '    return 1;' });
+    assert.strictEqual(locateHunkRange(original, { search: 'return y;', replace: 'return 1;' }), undefined);
+  });
+
+  test('diffs a proposed change line by line', () => {
+    assert.deepStrictEqual(diffLines(['a', 'b', 'c'], ['a', 'B', 'c', 'd']).map(({ type, text }) => `${type}${text}`), [' a', '-b', '+B', ' c', '+d']);
+    assert.deepStrictEqual(diffLines([], ['new']), [{ type: '+', text: 'new' }]);
+  });
+
+  test('reports each failed hunk by identity so accepted changes can be marked individually', () => {
+    const stale = { search: 'const gone = 1;', replace: 'const gone = 2;' };
+    const fresh = { search: 'const kept = 1;', replace: 'const kept = 2;' };
+    const result = applyHunks('const kept = 1;', [stale, fresh]);
+    assert.strictEqual(result.failed[0].hunk, stale);
+    assert.deepStrictEqual(result.applied, [fresh]);
+    assert.strictEqual(result.content, 'const kept = 2;');
+  });
+});
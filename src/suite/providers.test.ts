@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import { isCancellation, sleep } from '../core/host';
+import { ProviderChain, ProviderRequestError, getLLMResponse, getLLMStreamResponse, parseFlowiseUrl } from '../core/providers';
+import { ChatMessage } from '../core/types';
+import { FakeProvider, configWith, httpError } from './helpers';
+
+suite('LLMCoderAgent Providers Test Suite', () => {
+  test('splits a chatflow ID off legacy Flowise URLs', () => {
+    assert.deepStrictEqual(parseFlowiseUrl('http://localhost:3000/api/v1/prediction/abc/'), {
+      predictionUrl: 'http://localhost:3000/api/v1/prediction',
+      apiRoot: 'http://localhost:3000/api/v1',
+      chatflowId: 'abc',
+    });
+    assert.strictEqual(parseFlowiseUrl('https://flowise.example.com/api/v1/prediction').chatflowId, undefined);
+  });
+
+  test('moves on to the next fallback that connects and stays there', async () => {
+    const config = configWith({ apiMaxRetries: 1 });
+    const primary = new FakeProvider('Primary', () => { throw new Error('primary down'); });
+    const fallback = new FakeProvider('Fallback', () => 'fallback answer');
+    const chain = new ProviderChain(primary, [async () => undefined, async () => fallback]);
+    assert.strictEqual(await getLLMResponse('first', config, [], chain), 'fallback answer');
+    assert.strictEqual(chain.getName(), 'Fallback');
+    assert.strictEqual(await getLLMResponse('second', config, [], chain), 'fallback answer');
+    assert.strictEqual(primary.calls, 1);
+    assert.strictEqual(fallback.calls, 2);
+  });
+
+  test('fails with the last error once every fallback has failed', async () => {
+    const config = configWith({ apiMaxRetries: 1 });
+    const primary = new FakeProvider('Primary', () => { throw new Error('primary down'); });
+    const fallback = new FakeProvider('Fallback', () => { throw new Error('fallback down'); });
+    const chain = new ProviderChain(primary, [async () => fallback]);
+    await assert.rejects(getLLMResponse('prompt', config, [], chain), /Fallback response: fallback down/);
+    assert.strictEqual(primary.calls, 1);
+    assert.strictEqual(fallback.calls, 1);
+    assert.strictEqual(await chain.advance(), false);
+  });
+
+  test('waits for Retry-After instead of backing off when throttled', async () => {
+    // A backoff of ten seconds would outlast the test's timeout.
+    const config = configWith({ apiMaxRetries: 2, apiRetryDelay: 10_000 });
+    const provider = new FakeProvider('Throttled', (_prompt, call) => {
+      if (call === 1) {
+        throw new ProviderRequestError('Rate limited', httpError(429, { 'retry-after-ms': '50' }));
+      }
+      return 'answer';
+    });
+    const started = Date.now();
+    assert.strictEqual(await getLLMResponse('prompt', config, [], provider), 'answer');
+    assert.strictEqual(provider.calls, 2);
+    assert.ok(Date.now() - started >= 50);
+  });
+
+  test('does not retry client errors or throttling longer than the maximum wait', async () => {
+    const config = configWith({ apiMaxRetries: 3, apiRetryDelay: 10_000 });
+    const rejected = new FakeProvider('Rejected', () => { throw new ProviderRequestError('Bad request', httpError(400)); });
+    await assert.rejects(getLLMResponse('prompt', config, [], rejected), /not retried/);
+    assert.strictEqual(rejected.calls, 1);
+
+    const throttled = new FakeProvider('Exhausted', () => { throw new ProviderRequestError('Quota exceeded', httpError(429, { 'retry-after': '3600' })); });
+    await assert.rejects(getLLMResponse('prompt', config, [], throttled), /not retried/);
+    assert.strictEqual(throttled.calls, 1);
+  });
+
+  test('streams tokens as they arrive, or the whole answer when streaming is off', async () => {
+    const provider = new FakeProvider('Streaming', () => 'one two three');
+    const tokens: string[] = [];
+    assert.strictEqual(await getLLMStreamResponse('prompt', configWith(), [], provider, (token) => tokens.push(token)), 'one two three');
+    assert.deepStrictEqual(tokens, ['one ', 'two ', 'three']);
+
+    const whole: string[] = [];
+    await getLLMStreamResponse('other prompt', configWith({ streamResponses: false }), [], provider, (token) => whole.push(token));
+    assert.deepStrictEqual(whole, ['one two three']);
+  });
+
+  test('retries a stream only until its first token', async () => {
+    const config = configWith({ apiMaxRetries: 3, apiRetryDelay: 1 });
+    const flaky = new FakeProvider('Flaky', (_prompt, call) => {
+      if (call === 1) {
+        throw new Error('connection refused');
+      }
+      return 'recovered';
+    });
+    const tokens: string[] = [];
+    assert.strictEqual(await getLLMStreamResponse('prompt', config, [], flaky, (token) => tokens.push(token)), 'recovered');
+    assert.deepStrictEqual(tokens, ['recovered']);
+    assert.strictEqual(flaky.calls, 2);
+
+    class BrokenStream extends FakeProvider {
+      async streamResponse(_prompt: string, _history: ChatMessage[], onToken: (token: string) => void): Promise<string> {
+        this.calls++;
+        onToken('partial ');
+        throw new Error('connection reset');
+      }
+    }
+    const broken = new BrokenStream('Broken', () => '');
+    const partial: string[] = [];
+    await assert.rejects(getLLMStreamResponse('prompt', config, [], broken, (token) => partial.push(token)), /connection reset/);
+    assert.deepStrictEqual(partial, ['partial ']);
+    assert.strictEqual(broken.calls, 1);
+  });
+
+  test('cancels requests, including one waiting to retry', async () => {
+    const config = configWith({ apiMaxRetries: 3, apiRetryDelay: 10_000 });
+    const aborted = new AbortController();
+    aborted.abort();
+    const provider = new FakeProvider('Cancelled', () => 'answer');
+    await assert.rejects(getLLMResponse('prompt', config, [], provider, { signal: aborted.signal }), (error) => isCancellation(error));
+
+    const failing = new FakeProvider('Failing', () => { throw new Error('server error'); });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    await assert.rejects(getLLMResponse('prompt', config, [], failing, { signal: controller.signal }), (error) => isCancellation(error));
+    assert.strictEqual(failing.calls, 1);
+
+    const sleeping = new AbortController();
+    const wait = sleep(10_000, sleeping.signal);
+    sleeping.abort();
+    await assert.rejects(wait, (error) => isCancellation(error));
+  });
+});
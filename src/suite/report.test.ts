@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { renderReport, summarizeReport } from '../core/report';
+import { Severity } from '../core/types';
+
+suite('LLMCoderAgent Report Test Suite', () => {
+  test('summarizes and renders review reports', () => {
+    const report = {
+      title: 'Project review: demo',
+      generatedAt: new Date('2026-01-02T03:04:05Z'),
+      durationMs: 1500,
+      provider: 'Ollama',
+      model: 'llama3',
+      reviewMode: 'structured' as const,
+      prompt: 'Review {filename}',
+      files: [{
+        path: 'src/a.ts',
+        review: 'Looks risky',
+        issues: [
+          { line: 1, message: 'Injection', severity: Severity.High, category: 'security' },
+          { line: 2, message: 'Name', severity: Severity.Low },
+        ],
+        durationMs: 1200,
+      }],
+      failures: [{ path: 'src/b.ts', error: 'Request timed out' }],
+    };
+    const summary = summarizeReport(report);
+    assert.deepStrictEqual(summary.bySeverity, { [Severity.High]: 1, [Severity.Medium]: 0, [Severity.Low]: 1 });
+    assert.deepStrictEqual(summary.byCategory, { security: 1, other: 1 });
+
+    const markdown = renderReport(report, 'markdown');
+    assert.ok(markdown.includes('- [src/a.ts](#file-1): 2 issues (1 High, 1 Low) · 1.2s'));
+    assert.ok(markdown.includes('- `src/b.ts`: Request timed out'));
+    assert.ok(renderReport(report, 'html').includes('<a href="#file-1">src/a.ts</a>'));
+    const json = JSON.parse(renderReport(report, 'json'));
+    assert.strictEqual(json.generatedAt, '2026-01-02T03:04:05.000Z');
+    assert.strictEqual(json.summary.failures, 1);
+    assert.match(json.promptHash, /^[0-9a-f]{12}$/);
+  });
+});
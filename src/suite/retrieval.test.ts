@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { SemanticIndex, retrieveContext } from '../core/retrieval';
+import { configWith } from './helpers';
+
+const lines = (count: number, line: (index: number) => string): string => Array.from({ length: count }, (_, index) => line(index)).join('\n');
+
+suite('LLMCoderAgent Retrieval Test Suite', () => {
+  test('ranks chunks by BM25, matching identifiers by their parts', async () => {
+    const index = new SemanticIndex(configWith({ embeddingModel: '' }));
+    await index.update('src/users.ts', 'export const getUserName = (user: User) => user.profile.displayName;');
+    await index.update('src/orders.ts', 'export const orderTotal = (order: Order) => order.items.length;');
+    await index.update('src/names.ts', 'const user_name_cache = new Map();\nexport const clearUserNames = () => user_name_cache.clear();');
+    const results = await index.search('user name', 5);
+    assert.deepStrictEqual(results.map((chunk) => chunk.path).sort(), ['src/names.ts', 'src/users.ts']);
+    assert.deepStrictEqual((await index.search('user name', 5, { exclude: 'src/names.ts' })).map((chunk) => chunk.path), ['src/users.ts']);
+    assert.deepStrictEqual(await index.search('user name', 0), []);
+  });
+
+  test('splits files into overlapping chunks and replaces them on update', async () => {
+    const index = new SemanticIndex(configWith({ embeddingModel: '' }));
+    await index.update('src/long.ts', lines(70, (i) => (i === 34 ? 'const needle = 1;' : `const filler${i} = ${i};`)));
+    assert.strictEqual(index.size, 2);
+    const found = await index.search('needle', 5);
+    assert.deepStrictEqual(found.map((chunk) => [chunk.startLine, chunk.endLine]).sort(), [[1, 40], [31, 70]]);
+
+    await index.update('src/long.ts', 'const haystack = 1;');
+    assert.strictEqual(index.size, 1);
+    assert.deepStrictEqual(await index.search('needle', 5), []);
+    index.remove('src/long.ts');
+    assert.strictEqual(index.size, 0);
+  });
+
+  test('falls back to BM25 when the embedding model is unreachable', async () => {
+    const index = new SemanticIndex(configWith({ embeddingModel: 'nomic-embed-text', ollamaHost: 'http://127.0.0.1:9', apiTimeout: 2000 }));
+    await index.update('src/a.ts', 'export const parseConfig = () => ({});');
+    assert.deepStrictEqual((await index.search('parse config', 5)).map((chunk) => chunk.path), ['src/a.ts']);
+  });
+
+  test('labels retrieved chunks with their file and lines', async () => {
+    const config = configWith({ embeddingModel: '', retrievalTopK: 1 });
+    const index = new SemanticIndex(config);
+    await index.update('src/a.ts', 'export const parseConfig = () => ({});');
+    assert.deepStrictEqual(await retrieveContext(index, 'parse config', config), [
+      { kind: 'retrieved', label: 'workspace: src/a.ts, lines 1-1', content: 'export const parseConfig = () => ({});' },
+    ]);
+    assert.deepStrictEqual(await retrieveContext(index, 'parse config', configWith({ retrievalTopK: 0 })), []);
+    assert.deepStrictEqual(await retrieveContext(undefined, 'parse config', config), []);
+  });
+});
@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import { compareWithCheckpoint, extractJson, hashText, meetsSeverity, normalizeSeverity, parseMarkdownIssues, requestStructuredReview, reviewCacheKey, reviewContent, validateStructuredReview } from '../core/review';
+import { Severity } from '../core/types';
+import { FakeProvider, configWith } from './helpers';
+
+suite('LLMCoderAgent Review Test Suite', () => {
+  test('normalizes severity labels', () => {
+    assert.strictEqual(normalizeSeverity('HIGH'), Severity.High);
+    assert.strictEqual(normalizeSeverity('Medium severity'), Severity.Medium);
+    assert.strictEqual(normalizeSeverity('critical'), Severity.High);
+    assert.strictEqual(normalizeSeverity('info'), Severity.Low);
+    assert.strictEqual(normalizeSeverity('unknown'), undefined);
+    assert.ok(meetsSeverity(Severity.High, Severity.Medium));
+    assert.ok(!meetsSeverity(Severity.Low, Severity.Medium));
+  });
+
+  test('parses markdown and structured issues', () => {
+    const markdown = parseMarkdownIssues('- Line 12 (High): Null dereference\n- Lines 3-4 [low] naming');
+    assert.deepStrictEqual(markdown.map((issue) => [issue.line, issue.endLine, issue.severity]), [[12, undefined, Severity.High], [3, 4, Severity.Low]]);
+
+    const { review, errors } = validateStructuredReview({ summary: 's', issues: [{ startLine: 2, severity: 'warning', message: 'm' }] });
+    assert.deepStrictEqual(errors, []);
+    assert.strictEqual(review?.issues[0].severity, Severity.Medium);
+    assert.ok(validateStructuredReview({ issues: [{ startLine: 2, severity: 'bogus', message: 'm' }] }).errors.length);
+  });
+
+  test('extracts JSON from fenced, chatty or trailing-comma responses', () => {
+    assert.deepStrictEqual(extractJson('Here is the review:\n```json\n{"issues": [1, 2,],}\n```\nThanks').value, { issues: [1, 2] });
+    assert.deepStrictEqual(extractJson('Sure! {"summary": "ok", "issues": []}').value, { summary: 'ok', issues: [] });
+    assert.strictEqual(extractJson('No issues found.').error, 'Response does not contain a JSON object');
+    assert.match(extractJson('{"issues": [}').error ?? '', /^Invalid JSON/);
+  });
+
+  test('asks once more with the validation errors when a review does not validate', async () => {
+    const prompts: string[] = [];
+    const repaired = new FakeProvider('Repaired', (prompt, call) => {
+      prompts.push(prompt);
+      return call === 1
+        ? '{"issues": [{"startLine": 0, "severity": "bogus", "message": "m"}]}'
+        : '{"summary": "fixed", "issues": [{"startLine": 3, "severity": "high", "message": "Off by one"}]}';
+    });
+    const { review } = await requestStructuredReview('review a.ts', configWith(), repaired, {});
+    assert.strictEqual(review?.summary, 'fixed');
+    assert.deepStrictEqual(review?.issues.map((issue) => [issue.line, issue.severity]), [[3, Severity.High]]);
+    assert.match(prompts[1], /issues\[0\]\.startLine must be a positive integer/);
+    assert.match(prompts[1], /issues\[0\]\.severity must be one of high, medium, low/);
+
+    const stubborn = new FakeProvider('Stubborn', () => 'I could not find any issues.');
+    const result = await requestStructuredReview('review b.ts', configWith(), stubborn, {});
+    assert.strictEqual(result.review, undefined);
+    assert.strictEqual(result.raw, 'I could not find any issues.');
+    assert.strictEqual(stubborn.calls, 2);
+  });
+
+  test('drops structured fixes for lines past the end of the file or blank lines', async () => {
+    const provider = new FakeProvider('Fake', () => JSON.stringify({
+      summary: 's',
+      issues: [
+        { startLine: 1, severity: 'low', message: 'Use const', fix: 'const a = 1;' },
+        { startLine: 2, severity: 'low', message: 'Blank line', fix: 'const b = 2;' },
+        { startLine: 3, endLine: 9, severity: 'high', message: 'Past the end', fix: 'const c = 3;' },
+      ],
+    }));
+    const result = await reviewContent('a.ts', 'let a = 1;\n\nlet c = 3;', configWith(), provider);
+    assert.strictEqual(result.issues.length, 3);
+    assert.deepStrictEqual(result.hunks.map((hunk) => [hunk.search, hunk.replace]), [['let a = 1;', 'const a = 1;']]);
+  });
+
+  test('keys cached reviews by content, prompt, provider and model', () => {
+    const provider = new FakeProvider('Fake', () => '');
+    const key = reviewCacheKey(hashText('const a = 1;'), 'Review a.ts', provider);
+    assert.strictEqual(reviewCacheKey(hashText('const a = 1;'), 'Review a.ts', new FakeProvider('Fake', () => 'other')), key);
+    assert.notStrictEqual(reviewCacheKey(hashText('const a = 2;'), 'Review a.ts', provider), key);
+    assert.notStrictEqual(reviewCacheKey(hashText('const a = 1;'), 'Review b.ts', provider), key);
+    assert.notStrictEqual(reviewCacheKey(hashText('const a = 1;'), 'Review a.ts', new FakeProvider('Other', () => '')), key);
+    provider.model = 'larger-model';
+    assert.notStrictEqual(reviewCacheKey(hashText('const a = 1;'), 'Review a.ts', provider), key);
+  });
+
+  test('carries a review forward only for unchanged files reviewed with the same settings', async () => {
+    const provider = new FakeProvider('Fake', () => '');
+    const hash = hashText('const a = 1;');
+    const previous = { mtime: 1, size: 12, hash, cacheKey: reviewCacheKey(hash, 'Review a.ts', provider) };
+    let hashed = 0;
+    const hashContent = async (content: string) => {
+      hashed++;
+      return hashText(content);
+    };
+
+    const untouched = await compareWithCheckpoint(previous, { mtime: 1, size: 12 }, () => hashContent('const a = 1;'), 'Review a.ts', provider);
+    assert.strictEqual(untouched.state, previous);
+    assert.strictEqual(untouched.carriedKey, previous.cacheKey);
+    assert.strictEqual(hashed, 0);
+
+    const touched = await compareWithCheckpoint(previous, { mtime: 2, size: 12 }, () => hashContent('const a = 1;'), 'Review a.ts', provider);
+    assert.deepStrictEqual(touched.state, { mtime: 2, size: 12, hash });
+    assert.strictEqual(touched.carriedKey, previous.cacheKey);
+    assert.strictEqual(hashed, 1);
+
+    const edited = await compareWithCheckpoint(previous, { mtime: 2, size: 12 }, () => hashContent('const a = 2;'), 'Review a.ts', provider);
+    assert.strictEqual(edited.carriedKey, undefined);
+
+    const newPrompt = await compareWithCheckpoint(previous, { mtime: 1, size: 12 }, () => hashContent('const a = 1;'), 'Review a.ts strictly', provider);
+    assert.strictEqual(newPrompt.carriedKey, undefined);
+
+    provider.model = 'larger-model';
+    const newModel = await compareWithCheckpoint(previous, { mtime: 1, size: 12 }, () => hashContent('const a = 1;'), 'Review a.ts', provider);
+    assert.strictEqual(newModel.carriedKey, undefined);
+
+    const added = await compareWithCheckpoint(undefined, { mtime: 1, size: 12 }, () => hashContent('const a = 1;'), 'Review a.ts', provider);
+    assert.strictEqual(added.carriedKey, undefined);
+  });
+});
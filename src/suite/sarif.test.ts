@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { toSarif } from '../core/sarif';
+import { Severity } from '../core/types';
+
+suite('LLMCoderAgent SARIF Test Suite', () => {
+  test('exports issues and located fixes as SARIF', () => {
+    const sarif = toSarif([{
+      path: 'src/a.ts',
+      content: 'function f() {\n    return 1;\n}',
+      hunks: [{ search: 'return 1;', replace: 'return 2;' }],
+      issues: [
+        { line: 2, message: 'Wrong value', severity: Severity.High, category: 'bug' },
+        { line: 1, message: 'Naming', severity: Severity.Low },
+      ],
+    }], { root: '/repo' });
+    const [run] = sarif.runs;
+    assert.deepStrictEqual(run.tool.driver.rules.map((rule) => rule.id), ['llmcoder/bug', 'llmcoder/other']);
+    assert.deepStrictEqual(run.results.map((result) => [result.ruleIndex, result.level]), [[0, 'error'], [1, 'note']]);
+    assert.strictEqual(run.results[0].locations[0].physicalLocation.region.startLine, 2);
+    assert.deepStrictEqual(run.results[0].fixes?.[0].artifactChanges[0].replacements[0], { deletedRegion: { startLine: 2, endLine: 2 }, insertedContent: { text: '    return 2;' } });
+    assert.strictEqual(run.results[1].fixes, undefined);
+    assert.strictEqual(run.originalUriBaseIds?.SRCROOT.uri, 'file:///repo/');
+  });
+});
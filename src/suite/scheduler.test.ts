@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { isCancellation } from '../core/host';
+import { RequestScheduler } from '../core/scheduler';
+
+suite('LLMCoderAgent Scheduler Test Suite', () => {
+  test('schedules requests by priority and shares identical ones', async () => {
+    const scheduler = new RequestScheduler();
+    const limits = { maxConcurrent: 1, requestsPerMinute: 0, tokensPerMinute: 0 };
+    const order: string[] = [];
+    let release = () => undefined as void;
+    const first = scheduler.run('Ollama', limits, {}, () => new Promise<void>((resolve) => { release = resolve; }));
+    const background = scheduler.run('Ollama', limits, { priority: 'background' }, async () => { order.push('background'); });
+    const interactive = scheduler.run('Ollama', limits, { priority: 'interactive' }, async () => { order.push('interactive'); });
+    await new Promise((resolve) => setImmediate(resolve));
+    release();
+    await Promise.all([first, background, interactive]);
+    assert.deepStrictEqual(order, ['interactive', 'background']);
+
+    let calls = 0;
+    const task = async () => { calls++; return 'review'; };
+    const results = await Promise.all([scheduler.dedupe('key', undefined, task), scheduler.dedupe('key', undefined, task)]);
+    assert.deepStrictEqual(results, ['review', 'review']);
+    assert.strictEqual(calls, 1);
+  });
+
+  test('holds requests while paused and drops cancelled ones from the queue', async () => {
+    const scheduler = new RequestScheduler();
+    const limits = { maxConcurrent: 1, requestsPerMinute: 0, tokensPerMinute: 0 };
+    scheduler.pause('OpenAI', 50);
+    const started = Date.now();
+    const controller = new AbortController();
+    const cancelled = scheduler.run('OpenAI', limits, { signal: controller.signal }, async () => 'cancelled');
+    const waiting = scheduler.run('OpenAI', limits, {}, async () => Date.now() - started);
+    controller.abort();
+    await assert.rejects(cancelled, (error) => isCancellation(error));
+    assert.ok(await waiting >= 50);
+  });
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { ChatSessionStore, SessionState } from '../core/sessions';
+
+// Workspace state kept in a map, as VS Code keeps it for the extension.
+class MemoryState implements SessionState {
+  private readonly values = new Map<string, unknown>();
+
+  get<T>(key: string, defaultValue?: T): T {
+    return (this.values.has(key) ? this.values.get(key) : defaultValue) as T;
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    this.values.set(key, value);
+  }
+}
+
+const message = (role: 'user' | 'assistant', content: string) => ({ role, content, timestamp: Date.UTC(2026, 0, 2) });
+
+suite('LLMCoderAgent Sessions Test Suite', () => {
+  test('names untitled sessions after the first question and keeps the latest messages', async () => {
+    const store = new ChatSessionStore(new MemoryState());
+    const session = await store.active();
+    assert.strictEqual(session.name, 'New Chat');
+    await store.append(session.id, [message('user', 'How do I parse a unified diff in TypeScript?'), message('assistant', 'Split it into hunks.')], 3);
+    await store.append(session.id, [message('user', 'And renames?'), message('assistant', 'Read the rename headers.')], 3);
+    const updated = store.get(session.id)!;
+    assert.strictEqual(updated.name, 'How do I parse a unified diff in TypeScr');
+    assert.deepStrictEqual(updated.messages.map((m) => m.content), ['Split it into hunks.', 'And renames?', 'Read the rename headers.']);
+
+    await store.rename(session.id, 'Diffs');
+    await store.append(session.id, [message('user', 'Another question')], 3);
+    assert.strictEqual(store.get(session.id)!.name, 'Diffs');
+  });
+
+  test('switches, deletes and falls back to another session', async () => {
+    const store = new ChatSessionStore(new MemoryState());
+    const first = await store.create('First');
+    const second = await store.create('Second');
+    assert.strictEqual((await store.active()).id, second.id);
+    await store.setActive(first.id);
+    assert.strictEqual((await store.active()).id, first.id);
+    await store.delete(first.id);
+    assert.deepStrictEqual(store.list().map((session) => session.name), ['Second']);
+    assert.strictEqual((await store.active()).id, second.id);
+    await store.delete(second.id);
+    assert.strictEqual((await store.active()).name, 'New Chat');
+  });
+
+  test('exports sessions as Markdown and JSON', async () => {
+    const store = new ChatSessionStore(new MemoryState());
+    const session = await store.create('Review help');
+    await store.append(session.id, [message('user', 'Why?'), message('assistant', 'Because.')], 10);
+    const saved = store.get(session.id)!;
+    const markdown = store.export(saved, 'markdown');
+    assert.ok(markdown.startsWith('# Review help\n'));
+    assert.match(markdown, /### User \(.+\)\n\nWhy\?\n\n### Assistant \(.+\)\n\nBecause\.\n$/);
+    assert.deepStrictEqual(JSON.parse(store.export(saved, 'json')), saved);
+  });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { setHost } from '../core/host';
+import { getLLMResponse } from '../core/providers';
+import { UsageRecord } from '../core/types';
+import { addUsage, budgetWarning, totalUsage, usageDay } from '../core/usage';
+import { FakeProvider, configWith } from './helpers';
+
+suite('LLMCoderAgent Usage Test Suite', () => {
+  test('aggregates token usage and prices it', () => {
+    const settings: Record<string, unknown> = { tokenPrices: { 'gpt-4o': { input: 2, output: 10 } }, dailyTokenBudget: 1000 };
+    const config = configWith(settings);
+    const at = new Date(2026, 0, 2, 12).getTime();
+    const record = { at, provider: 'OpenAI', model: 'gpt-4o', command: 'chat' as const, inputTokens: 400, outputTokens: 100, estimated: false };
+    let entries = addUsage([], record);
+    entries = addUsage(entries, { ...record, outputTokens: 200, estimated: true });
+    entries = addUsage(entries, { ...record, provider: 'Flowise', model: 'flow', estimated: true });
+    assert.strictEqual(entries.length, 2);
+    assert.deepStrictEqual(entries[0], {
+      day: usageDay(at), command: 'chat', provider: 'OpenAI', model: 'gpt-4o', requests: 2, inputTokens: 800, outputTokens: 300, estimatedRequests: 1,
+    });
+    const totals = totalUsage(entries, config);
+    assert.strictEqual(totals.requests, 3);
+    assert.strictEqual(totals.cost, (800 * 2 + 300 * 10) / 1_000_000);
+    assert.match(budgetWarning(totals, config) ?? '', /over the daily budget/);
+    assert.strictEqual(addUsage(entries, { ...record, at: at + 100 * 24 * 60 * 60 * 1000 }).length, 1);
+  });
+
+  test('warns once either daily budget is reached', () => {
+    const usage = { requests: 4, inputTokens: 600, outputTokens: 300, estimatedRequests: 0 };
+    assert.strictEqual(budgetWarning({ ...usage, cost: 0.5 }, configWith({ dailyTokenBudget: 1000, dailyCostBudget: 1 })), undefined);
+    assert.match(budgetWarning(usage, configWith({ dailyTokenBudget: 900 })) ?? '', /900 tokens today, over the daily budget of 900/);
+    assert.match(budgetWarning({ ...usage, cost: 1.25 }, configWith({ dailyCostBudget: 1 })) ?? '', /spent 1\.25 today, over the daily budget of 1\.00\.$/);
+    // Unpriced usage cannot overrun a cost budget.
+    assert.strictEqual(budgetWarning(usage, configWith({ dailyCostBudget: 0.01 })), undefined);
+    assert.strictEqual(budgetWarning({ ...usage, cost: 100 }, configWith()), undefined);
+  });
+
+  test('records estimated usage for providers that do not report it', async () => {
+    const records: UsageRecord[] = [];
+    setHost({ log: () => undefined, notifyError: () => undefined, reconfigure: async () => undefined, recordUsage: (record) => records.push(record) });
+    try {
+      const provider = new FakeProvider('Unreported', () => 'a twelve char');
+      await getLLMResponse('sixteen char txt', configWith(), [], provider, { command: 'reviewFile', file: 'src/a.ts' });
+    } finally {
+      setHost({ log: () => undefined, notifyError: () => undefined, reconfigure: async () => undefined, recordUsage: () => undefined });
+    }
+    assert.strictEqual(records.length, 1);
+    assert.deepStrictEqual({ ...records[0], at: 0 }, {
+      at: 0, provider: 'Unreported', model: 'fake-model', command: 'reviewFile', file: 'src/a.ts', inputTokens: 4, outputTokens: 4, estimated: true,
+    });
+  });
+});